@@ -0,0 +1,420 @@
+import { z } from "zod";
+import { GraphClient } from "./graph.js";
+import { PlannerError, ValidationError } from "./errors.js";
+import { BatchPatchItem, batchError, batchPatchWithConcurrency, patchWithConcurrency } from "./concurrency.js";
+import { CATEGORY_KEYS, categoryLabels } from "./categories.js";
+import { GroupMember, matchMember, resolveMembers } from "./members.js";
+import { appliedCategoryKeys } from "./query.js";
+import { byOrderHint } from "./format.js";
+import { decodeReferenceKey, encodeUrlForReference } from "./references.js";
+import { addTaskComment, listTaskComments } from "./comments.js";
+import { buildTaskFields, createTaskWithDetails, referenceEntry } from "./tasks.js";
+import { orderedChecklistEntries } from "./checklist.js";
+import { formatPath, loadBoardFormats } from "./boards.js";
+import { hintsBetween } from "./orderhints.js";
+
+export const ARCHIVE_FORMAT = "planner-plan-archive";
+
+// Bump when the archive shape changes; import refuses archives newer than it understands
+export const ARCHIVE_VERSION = 1;
+
+export const ARCHIVE_ENCODINGS = ["json", "ndjson"] as const;
+
+export type ArchiveEncoding = (typeof ARCHIVE_ENCODINGS)[number];
+
+const memberSchema = z.object({
+  id: z.string(),
+  displayName: z.string().optional(),
+  userPrincipalName: z.string().optional(),
+  mail: z.string().optional(),
+});
+
+const bucketSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  orderHint: z.string().optional(),
+});
+
+const commentSchema = z.object({
+  from: z.string().optional(),
+  createdDateTime: z.string().optional(),
+  content: z.string().optional(),
+  contentType: z.string().optional(),
+});
+
+const taskSchema = z.object({
+  id: z.string(),
+  bucketId: z.string(),
+  title: z.string(),
+  percentComplete: z.number().optional(),
+  priority: z.number().optional(),
+  startDateTime: z.string().nullable().optional(),
+  dueDateTime: z.string().nullable().optional(),
+  orderHint: z.string().optional(),
+  // Position within its bucket on the board (bucketTaskBoardFormat); older archives only have orderHint
+  boardOrderHint: z.string().optional(),
+  assigneeIds: z.array(z.string()).default([]),
+  // Category keys (category1-category25); their labels travel with the plan
+  categories: z.array(z.string()).default([]),
+  description: z.string().default(""),
+  previewType: z.string().optional(),
+  checklist: z.array(z.object({ title: z.string(), isChecked: z.boolean().default(false) })).default([]),
+  references: z.array(z.object({ url: z.string(), alias: z.string().optional(), type: z.string().optional() })).default([]),
+  comments: z.array(commentSchema).default([]),
+});
+
+const headerSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  plan: z.object({
+    id: z.string(),
+    title: z.string(),
+    groupId: z.string().optional(),
+    categoryLabels: z.record(z.string(), z.string().nullable()).default({}),
+  }),
+});
+
+const archiveSchema = headerSchema.extend({
+  members: z.array(memberSchema).default([]),
+  buckets: z.array(bucketSchema),
+  tasks: z.array(taskSchema),
+});
+
+export type PlanArchive = z.infer<typeof archiveSchema>;
+
+export type ArchiveTask = z.infer<typeof taskSchema>;
+
+// Only the categories that have a label
+function namedLabels(descriptions: Record<string, string | null>): Record<string, string> {
+  return Object.fromEntries(Object.entries(categoryLabels(descriptions)).filter((entry): entry is [string, string] => Boolean(entry[1])));
+}
+
+// Walks a plan into an archive: buckets and tasks in board order, each task with its details,
+// assignees (with enough member info to map them elsewhere) and optionally its comments
+export async function exportPlan(graph: GraphClient, planId: string, options: { comments?: boolean } = {}): Promise<PlanArchive> {
+  const [plan, planDetails, buckets, tasks] = await Promise.all([
+    graph.get(`/planner/plans/${planId}`),
+    graph.get(`/planner/plans/${planId}/details`),
+    graph.listAll(`/planner/plans/${planId}/buckets`),
+    graph.listAll(`/planner/plans/${planId}/tasks`),
+  ]);
+  const groupId: string | undefined = plan.container?.containerId;
+  const groupMembers: any[] = groupId ? await graph.listAll(`/groups/${groupId}/members`) : [];
+
+  const details = await graph.batch(tasks.map((task: any) => ({ id: task.id, method: "GET", url: `/planner/tasks/${task.id}/details` })));
+  const boardFormats = await loadBoardFormats(graph, tasks, "bucket");
+
+  const archivedTasks: ArchiveTask[] = [];
+  for (const task of [...tasks].sort(byOrderHint)) {
+    const response = details.get(task.id);
+    if (response?.status !== 200) throw batchError("GET", `/planner/tasks/${task.id}/details`, response);
+    const taskDetails = response.body ?? {};
+
+    const comments = options.comments && groupId && task.conversationThreadId
+      ? await listTaskComments(graph, groupId, task.conversationThreadId)
+      : [];
+
+    archivedTasks.push({
+      id: task.id,
+      bucketId: task.bucketId,
+      title: task.title,
+      percentComplete: task.percentComplete,
+      priority: task.priority,
+      startDateTime: task.startDateTime ?? null,
+      dueDateTime: task.dueDateTime ?? null,
+      orderHint: task.orderHint,
+      boardOrderHint: boardFormats.get(task.id)?.orderHint,
+      assigneeIds: Object.keys(task.assignments ?? {}),
+      categories: appliedCategoryKeys(task),
+      description: taskDetails.description ?? "",
+      previewType: taskDetails.previewType,
+      checklist: Object.values<any>(taskDetails.checklist ?? {})
+        .sort(byOrderHint)
+        .map((item: any) => ({ title: item.title, isChecked: Boolean(item.isChecked) })),
+      references: Object.entries(taskDetails.references ?? {}).map(([key, ref]: [string, any]) => ({
+        url: decodeReferenceKey(key),
+        alias: ref.alias ?? undefined,
+        type: ref.type ?? undefined,
+      })),
+      comments: comments.map(({ from, createdDateTime, content, contentType }) => ({ from, createdDateTime, content, contentType })),
+    });
+  }
+
+  // Only the people the tasks mention, so the archive doesn't carry the whole group
+  const assigned = new Set(archivedTasks.flatMap((t) => t.assigneeIds));
+  const members = [...assigned].map((id) => {
+    const member = groupMembers.find((m: any) => m.id === id);
+    return member
+      ? { id, displayName: member.displayName ?? undefined, userPrincipalName: member.userPrincipalName ?? undefined, mail: member.mail ?? undefined }
+      : { id };
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    plan: { id: plan.id, title: plan.title, groupId, categoryLabels: namedLabels(planDetails.categoryDescriptions ?? {}) },
+    members,
+    buckets: [...buckets].sort(byOrderHint).map((b: any) => ({ id: b.id, name: b.name, orderHint: b.orderHint })),
+    tasks: archivedTasks,
+  };
+}
+
+// JSON is one document; NDJSON is a header line followed by one line per member, bucket and task,
+// which keeps large archives diffable and streamable
+export function serializeArchive(archive: PlanArchive, encoding: ArchiveEncoding): string {
+  if (encoding === "json") return JSON.stringify(archive, null, 2);
+  const { members, buckets, tasks, ...header } = archive;
+  return [
+    { record: "header", ...header },
+    ...members.map((m) => ({ record: "member", ...m })),
+    ...buckets.map((b) => ({ record: "bucket", ...b })),
+    ...tasks.map((t) => ({ record: "task", ...t })),
+  ].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+// Reads either encoding and checks the format and version before anything is created
+export function parseArchive(text: string): PlanArchive {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    // Not a single document: read it as NDJSON records
+    try {
+      const records = text.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+      const { record, ...header } = records.find((r) => r.record === "header") ?? {};
+      const of = (type: string) => records.filter((r) => r.record === type).map(({ record, ...rest }) => rest);
+      raw = { ...header, members: of("member"), buckets: of("bucket"), tasks: of("task") };
+    } catch {
+      throw new ValidationError(`Archive is not valid JSON or NDJSON: ${error.message}`);
+    }
+  }
+  if (raw?.record === "header") {
+    // A one-line NDJSON archive (a plan without buckets) parses as a single document
+    const { record, ...header } = raw;
+    raw = { ...header, members: [], buckets: [], tasks: [] };
+  }
+
+  if (raw?.format !== ARCHIVE_FORMAT) {
+    throw new ValidationError("Not a plan archive", { hint: `Expected "format": "${ARCHIVE_FORMAT}" (create one with export-plan)` });
+  }
+  if (typeof raw.version !== "number" || raw.version > ARCHIVE_VERSION) {
+    throw new ValidationError(`Unsupported archive version ${raw.version}`, { supportedVersion: ARCHIVE_VERSION });
+  }
+  const result = archiveSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ValidationError("Archive does not match the expected shape", {
+      issues: result.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return result.data;
+}
+
+export interface ImportOptions {
+  // Source user (ID, UPN or email) → target user (ID, UPN, email or name); null drops the assignee
+  assigneeMap?: Record<string, string | null>;
+  // Copy the archive's category labels onto the target plan
+  labels?: boolean;
+  // Re-post archived comments, each prefixed with its original author and date
+  comments?: boolean;
+}
+
+export interface ImportResult {
+  planId: string;
+  // Old ID → new ID
+  buckets: Record<string, string>;
+  tasks: Record<string, string>;
+  // Old user ID → target user ID, or null when the assignee was dropped
+  assignees: Record<string, string | null>;
+  warnings: string[];
+  failures: { taskId: string; title: string; error: unknown }[];
+}
+
+// Maps every assignee in the archive onto a target group member: explicit map entries first,
+// then the same user ID, then a matching UPN or email
+function mapAssignees(archive: PlanArchive, targetMembers: GroupMember[], assigneeMap: Record<string, string | null>) {
+  const mapping: Record<string, string | null> = {};
+  const warnings: string[] = [];
+  const sourceIds = new Set([...archive.members.map((m) => m.id), ...archive.tasks.flatMap((t) => t.assigneeIds)]);
+  const explicit = new Map(Object.entries(assigneeMap).map(([k, v]) => [k.trim().toLowerCase(), v]));
+
+  for (const id of sourceIds) {
+    const source = archive.members.find((m) => m.id === id) ?? { id };
+    const keys = [source.id, source.userPrincipalName, source.mail].filter(Boolean).map((k) => k!.toLowerCase());
+    const key = keys.find((k) => explicit.has(k));
+    if (key !== undefined) {
+      const target = explicit.get(key);
+      mapping[id] = target ? resolveMembers(targetMembers, [target])[0].id : null;
+      continue;
+    }
+    if (targetMembers.some((m) => m.id === id)) {
+      mapping[id] = id;
+      continue;
+    }
+    const byAddress = [source.userPrincipalName, source.mail]
+      .filter(Boolean)
+      .map((address) => matchMember(targetMembers, address!))
+      .find((match) => match.status === "resolved");
+    mapping[id] = byAddress?.status === "resolved" ? byAddress.member.id : null;
+    if (!mapping[id]) {
+      warnings.push(`No target member for ${source.userPrincipalName ?? source.displayName ?? id}; their assignments were dropped`);
+    }
+  }
+  return { mapping, warnings };
+}
+
+// Header for a re-posted comment, since posts can't be created on someone else's behalf
+function archivedComment(comment: z.infer<typeof commentSchema>): { content: string; contentType: "text" | "html" } {
+  const origin = `Originally posted by ${comment.from ?? "unknown"}${comment.createdDateTime ? ` on ${comment.createdDateTime}` : ""}`;
+  if (comment.contentType === "html") {
+    return { content: `<p><em>${origin}</em></p>${comment.content ?? ""}`, contentType: "html" };
+  }
+  return { content: `${origin}:\n\n${comment.content ?? ""}`, contentType: "text" };
+}
+
+// Recreates an archive in a target plan. Buckets with the same name are reused; everything else
+// gets new IDs, reported as old → new maps. A task that fails is reported and the rest carry on.
+export async function importPlan(graph: GraphClient, archive: PlanArchive, planId: string, options: ImportOptions = {}): Promise<ImportResult> {
+  const plan = await graph.get(`/planner/plans/${planId}`);
+  const groupId: string = plan.container.containerId;
+  const [existingBuckets, groupMembers] = await Promise.all([
+    graph.listAll(`/planner/plans/${planId}/buckets`),
+    graph.listAll(`/groups/${groupId}/members`),
+  ]);
+  const targetMembers: GroupMember[] = groupMembers.map((m: any) => ({
+    id: m.id,
+    displayName: m.displayName,
+    userPrincipalName: m.userPrincipalName,
+    mail: m.mail,
+  }));
+  const { mapping, warnings } = mapAssignees(archive, targetMembers, options.assigneeMap ?? {});
+
+  if (options.labels ?? true) {
+    const labels = Object.fromEntries(CATEGORY_KEYS.filter((key) => archive.plan.categoryLabels[key]).map((key) => [key, archive.plan.categoryLabels[key]]));
+    if (Object.keys(labels).length > 0) {
+      await patchWithConcurrency(graph, `/planner/plans/${planId}/details`, { categoryDescriptions: labels });
+    }
+  }
+
+  // Buckets: reuse same-named ones, create the rest in archive order
+  const bucketIds: Record<string, string> = {};
+  const reusedBuckets = new Set<string>();
+  const lastBucket = [...existingBuckets].sort(byOrderHint)[existingBuckets.length - 1];
+  let orderHint = lastBucket ? `${lastBucket.orderHint} !` : " !";
+  for (const bucket of archive.buckets) {
+    const existing = existingBuckets.find((b: any) => b.name.trim().toLowerCase() === bucket.name.trim().toLowerCase());
+    if (existing) {
+      bucketIds[bucket.id] = existing.id;
+      reusedBuckets.add(existing.id);
+      continue;
+    }
+    const created = await graph.post("/planner/buckets", { planId, name: bucket.name, orderHint });
+    bucketIds[bucket.id] = created.id;
+    orderHint = `${created.orderHint} !`;
+  }
+
+  // Tasks already in reused buckets, read before importing so imported tasks can go after them
+  const existingTasks = reusedBuckets.size > 0
+    ? (await graph.listAll(`/planner/plans/${planId}/tasks`)).filter((task: any) => reusedBuckets.has(task.bucketId))
+    : [];
+
+  const taskIds: Record<string, string> = {};
+  const failures: ImportResult["failures"] = [];
+  for (const task of archive.tasks) {
+    try {
+      const bucketId = bucketIds[task.bucketId];
+      if (!bucketId) throw new ValidationError(`Task refers to bucket ${task.bucketId}, which is not in the archive`);
+      const body = {
+        planId,
+        bucketId,
+        ...buildTaskFields({
+          title: task.title,
+          percentComplete: task.percentComplete,
+          priority: task.priority,
+          startDateTime: task.startDateTime ?? undefined,
+          dueDateTime: task.dueDateTime ?? undefined,
+          assigneeIds: [...new Set(task.assigneeIds.map((id) => mapping[id]).filter((id): id is string => Boolean(id)))],
+          categories: task.categories,
+        }),
+      };
+      const details: Record<string, any> = {};
+      if (task.description) details.description = task.description;
+      if (task.previewType) details.previewType = task.previewType;
+      if (task.checklist.length) details.checklist = orderedChecklistEntries(task.checklist);
+      if (task.references.length) {
+        details.references = Object.fromEntries(task.references.map((r) => [encodeUrlForReference(r.url), referenceEntry(r.alias, r.type)]));
+      }
+      const created = await createTaskWithDetails(graph, body, details);
+      taskIds[task.id] = created.id;
+
+      if (options.comments ?? true) {
+        for (const comment of task.comments) {
+          const { content, contentType } = archivedComment(comment);
+          try {
+            const result = await addTaskComment(graph, groupId, created, content, contentType);
+            created.conversationThreadId = result.conversationId;
+            if (result.warning) warnings.push(`${task.title}: ${result.warning}`);
+          } catch (error) {
+            if (!(error instanceof PlannerError)) throw error;
+            warnings.push(`${task.title}: a comment could not be copied (${error.detail})`);
+          }
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof PlannerError)) throw error;
+      failures.push({ taskId: task.id, title: task.title, error: error.toJSON() });
+    }
+  }
+
+  warnings.push(...(await restoreBoardOrder(graph, archive, bucketIds, taskIds, existingTasks)));
+  return { planId, buckets: bucketIds, tasks: taskIds, assignees: mapping, warnings, failures };
+}
+
+// Planner puts new tasks at the top of their bucket, so the board order is set afterwards: each
+// bucket's imported tasks follow the archive's order, below any tasks the bucket already held.
+// Returns warnings for tasks whose position couldn't be set.
+async function restoreBoardOrder(
+  graph: GraphClient,
+  archive: PlanArchive,
+  bucketIds: Record<string, string>,
+  taskIds: Record<string, string>,
+  existingTasks: any[]
+): Promise<string[]> {
+  const imported = archive.tasks
+    .map((task, index) => ({ task, index, id: taskIds[task.id] }))
+    .filter(({ id }) => id)
+    .sort((a, b) => byOrderHint(
+      { orderHint: a.task.boardOrderHint ?? a.task.orderHint },
+      { orderHint: b.task.boardOrderHint ?? b.task.orderHint }
+    ) || a.index - b.index);
+  if (imported.length === 0) return [];
+
+  let formats: Map<string, any>;
+  let existingFormats: Map<string, any>;
+  try {
+    [formats, existingFormats] = await Promise.all([
+      loadBoardFormats(graph, imported, "bucket"),
+      loadBoardFormats(graph, existingTasks, "bucket"),
+    ]);
+  } catch (error) {
+    if (!(error instanceof PlannerError)) throw error;
+    return [`Board order of the imported tasks was not kept (${error.detail})`];
+  }
+  const items: (BatchPatchItem & { title: string })[] = [];
+  for (const bucketId of new Set(imported.map(({ task }) => bucketIds[task.bucketId]))) {
+    const inBucket = imported.filter(({ task }) => bucketIds[task.bucketId] === bucketId);
+    const last = existingTasks
+      .filter((task) => task.bucketId === bucketId)
+      .map((task) => ({ orderHint: existingFormats.get(task.id)?.orderHint ?? "" }))
+      .sort(byOrderHint)
+      .pop();
+    const hints = hintsBetween(last?.orderHint, undefined, inBucket.length);
+    inBucket.forEach(({ task, id }, i) => {
+      items.push({ title: task.title, path: formatPath("bucket", id), base: formats.get(id), changes: { orderHint: hints[i] } });
+    });
+  }
+
+  const outcomes = await batchPatchWithConcurrency(graph, items);
+  return outcomes.flatMap((outcome, i) => outcome.ok ? [] : [`${items[i].title}: board position not kept (${outcome.error.detail})`]);
+}
@@ -0,0 +1,99 @@
+import { GraphClient } from "./graph.js";
+import { batchError } from "./concurrency.js";
+import { byOrderHint } from "./format.js";
+import { PlanContext, taskStatus } from "./query.js";
+
+// Planner's three board views, each ordered by its own per-task format resource
+export const BOARD_VIEWS = ["bucket", "assignedTo", "progress"] as const;
+
+export type BoardView = (typeof BOARD_VIEWS)[number];
+
+const FORMAT_RESOURCES: Record<BoardView, string> = {
+  bucket: "bucketTaskBoardFormat",
+  assignedTo: "assignedToTaskBoardFormat",
+  progress: "progressTaskBoardFormat",
+};
+
+const PROGRESS_COLUMNS = [
+  { key: "notStarted", name: "Not started" },
+  { key: "inProgress", name: "In progress" },
+  { key: "completed", name: "Completed" },
+];
+
+// Column key for tasks without assignees in the assignedTo view
+export const UNASSIGNED = "unassigned";
+
+export function formatPath(view: BoardView, taskId: string): string {
+  return `/planner/tasks/${taskId}/${FORMAT_RESOURCES[view]}`;
+}
+
+// Reads the view's format resource for every task in one $batch pass
+export async function loadBoardFormats(graph: GraphClient, tasks: any[], view: BoardView): Promise<Map<string, any>> {
+  const responses = await graph.batch(tasks.map((task) => ({ id: task.id, method: "GET", url: formatPath(view, task.id) })));
+  const formats = new Map<string, any>();
+  for (const task of tasks) {
+    const response = responses.get(task.id);
+    if (response?.status !== 200) throw batchError("GET", formatPath(view, task.id), response);
+    formats.set(task.id, response.body);
+  }
+  return formats;
+}
+
+// The columns a task appears in (one per assignee in the assignedTo view)
+export function columnKeys(view: BoardView, task: any): string[] {
+  switch (view) {
+    case "bucket":
+      return [task.bucketId];
+    case "progress":
+      return [taskStatus(task)];
+    case "assignedTo": {
+      const assignees = Object.keys(task.assignments ?? {});
+      return assignees.length > 0 ? assignees : [UNASSIGNED];
+    }
+  }
+}
+
+// A task's order hint within one column of the view
+export function hintOf(view: BoardView, format: any, column: string): string {
+  if (view !== "assignedTo") return format?.orderHint ?? "";
+  return (column === UNASSIGNED ? format?.unassignedOrderHint : format?.orderHintsByAssignee?.[column]) ?? "";
+}
+
+// PATCH body that sets a task's order hint within one column of the view
+export function hintPatch(view: BoardView, column: string, hint: string): Record<string, any> {
+  if (view !== "assignedTo") return { orderHint: hint };
+  return column === UNASSIGNED ? { unassignedOrderHint: hint } : { orderHintsByAssignee: { [column]: hint } };
+}
+
+export interface BoardColumn {
+  key: string;
+  name: string;
+  tasks: any[];
+}
+
+// Lays tasks out as the board shows them: columns left to right, tasks top to bottom.
+// Buckets follow their own order hints; assignee columns are sorted by name after "Unassigned".
+export function boardColumns(view: BoardView, tasks: any[], formats: Map<string, any>, ctx: PlanContext, buckets: any[] = []): BoardColumn[] {
+  let columns: { key: string; name: string }[];
+  if (view === "bucket") {
+    columns = [...buckets].sort(byOrderHint).map((b) => ({ key: b.id, name: b.name }));
+  } else if (view === "progress") {
+    columns = PROGRESS_COLUMNS;
+  } else {
+    const ids = [...new Set(tasks.flatMap((task) => Object.keys(task.assignments ?? {})))];
+    const named = ids
+      .map((id) => ({ key: id, name: ctx.members.get(id)?.displayName ?? id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    columns = [{ key: UNASSIGNED, name: "Unassigned" }, ...named];
+  }
+
+  return columns.map(({ key, name }) => ({
+    key,
+    name,
+    tasks: tasks
+      .filter((task) => columnKeys(view, task).includes(key))
+      .map((task) => ({ task, orderHint: hintOf(view, formats.get(task.id), key) }))
+      .sort(byOrderHint)
+      .map(({ task }) => task),
+  }));
+}
@@ -0,0 +1,50 @@
+import { ValidationError } from "./errors.js";
+
+// Planner's fixed category slots: category1 … category25
+export const CATEGORY_KEYS = Array.from({ length: 25 }, (_, i) => `category${i + 1}`);
+
+export function isCategoryKey(value: string): boolean {
+  return /^category([1-9]|1\d|2[0-5])$/.test(value);
+}
+
+export function assertCategoryKey(category: string): void {
+  if (!isCategoryKey(category)) {
+    throw new ValidationError(`Invalid category "${category}" (expected category1-category25)`);
+  }
+}
+
+// Maps category keys or label names ("Bug", "blocked") to category keys using a plan's
+// categoryDescriptions. Unknown labels, and labels shared by several categories, are errors.
+export function resolveCategories(descriptions: Record<string, string | null | undefined>, refs: string[]): string[] {
+  const keys: string[] = [];
+  const ambiguous: { label: string; categories: string[] }[] = [];
+  const unknown: string[] = [];
+  for (const ref of refs) {
+    if (isCategoryKey(ref)) {
+      keys.push(ref);
+      continue;
+    }
+    const label = ref.trim().toLowerCase();
+    const matches = CATEGORY_KEYS.filter((key) => descriptions[key]?.trim().toLowerCase() === label);
+    if (matches.length === 1) keys.push(matches[0]);
+    else if (matches.length > 1) ambiguous.push({ label: ref, categories: matches });
+    else unknown.push(ref);
+  }
+  if (ambiguous.length > 0 || unknown.length > 0) {
+    throw new ValidationError("Could not resolve every category label", {
+      hint: "Use get-plan-categories to see the plan's labels, or pass category1-category25 directly",
+      ambiguous,
+      unknown,
+    });
+  }
+  return keys;
+}
+
+// Current label for every category slot (null when the plan leaves it unnamed)
+export function categoryLabels(descriptions: Record<string, string | null | undefined>): Record<string, string | null> {
+  const labels: Record<string, string | null> = {};
+  for (const key of CATEGORY_KEYS) {
+    labels[key] = descriptions?.[key] || null;
+  }
+  return labels;
+}
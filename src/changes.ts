@@ -0,0 +1,234 @@
+import { createHash, randomUUID } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { PlanContext } from "./query.js";
+
+// Graph v1.0 has no delta query for Planner tasks, so changes are found by comparing the plan with
+// snapshots saved on earlier runs. Beta's Planner delta is left alone: beta APIs can change without
+// notice, and a delta feed only reaches back to when its token was issued, which snapshots need
+// anyway. Only the fields the change feed reports on are kept.
+export interface TaskSnapshot {
+  title: string;
+  bucketId: string;
+  assignees: string[];
+  createdDateTime?: string;
+  completedDateTime?: string;
+  completedBy?: string;
+  startDateTime?: string;
+  dueDateTime?: string;
+}
+
+export interface PlanSnapshot {
+  takenAt: string;
+  tasks: Record<string, TaskSnapshot>;
+}
+
+// Snapshots kept per plan and user; older ones are dropped as new ones are recorded
+export const SNAPSHOT_HISTORY = 30;
+
+export function snapshotDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.PLANNER_SNAPSHOT_DIR || join(homedir(), ".microsoft-planner-mcp", "snapshots");
+}
+
+// Each user has their own checkpoints (one directory per user), so on a shared server one
+// person's run doesn't move the "since last time" of everyone else looking at the plan. Names are
+// hashed: IDs differing only in case or punctuation still get their own files, and none can
+// reach outside dir. The file itself records the plan and owner.
+function snapshotFile(dir: string, planId: string, owner: string): string {
+  const hash = (name: string) => createHash("sha256").update(name).digest("hex");
+  return join(dir, hash(owner), `${hash(planId)}.json`);
+}
+
+export interface SnapshotHistory {
+  // Oldest first
+  snapshots: PlanSnapshot[];
+  // Set when the file couldn't be read and the history starts over
+  note?: string;
+}
+
+// Snapshots of a plan saved by owner. A damaged file (cut short by a crash, say) counts as no
+// history, and the next recordSnapshot replaces it.
+export function readSnapshots(dir: string, planId: string, owner: string): SnapshotHistory {
+  const file = snapshotFile(dir, planId, owner);
+  if (!existsSync(file)) return { snapshots: [] };
+  try {
+    const snapshots = JSON.parse(readFileSync(file, "utf-8")).snapshots ?? [];
+    if (!Array.isArray(snapshots)) throw new Error("snapshots is not a list");
+    return { snapshots };
+  } catch (error: any) {
+    return { snapshots: [], note: `Saved checkpoints for this plan could not be read (${error.message}), so tracking starts over` };
+  }
+}
+
+// Writes through a temporary file and a rename, so a crash mid-write leaves the old file intact
+export function recordSnapshot(dir: string, planId: string, owner: string, snapshot: PlanSnapshot): void {
+  const file = snapshotFile(dir, planId, owner);
+  const snapshots = [...readSnapshots(dir, planId, owner).snapshots, snapshot].slice(-SNAPSHOT_HISTORY);
+  mkdirSync(dirname(file), { recursive: true });
+  const temp = `${file}.${randomUUID()}.tmp`;
+  try {
+    writeFileSync(temp, JSON.stringify({ planId, owner, snapshots }));
+    renameSync(temp, file);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+}
+
+export function takeSnapshot(tasks: any[], takenAt = new Date().toISOString()): PlanSnapshot {
+  const snapshot: PlanSnapshot = { takenAt, tasks: {} };
+  for (const task of tasks) {
+    snapshot.tasks[task.id] = {
+      title: task.title,
+      bucketId: task.bucketId,
+      assignees: Object.keys(task.assignments ?? {}).sort(),
+      createdDateTime: task.createdDateTime ?? undefined,
+      completedDateTime: task.completedDateTime ?? undefined,
+      completedBy: task.completedBy?.user?.id,
+      startDateTime: task.startDateTime ?? undefined,
+      dueDateTime: task.dueDateTime ?? undefined,
+    };
+  }
+  return snapshot;
+}
+
+// The snapshot to compare against: the newest one taken at or before since, or the newest of all
+export function baselineFor(snapshots: PlanSnapshot[], since?: string): PlanSnapshot | undefined {
+  const candidates = since ? snapshots.filter((s) => s.takenAt <= since) : snapshots;
+  return candidates[candidates.length - 1];
+}
+
+export interface TaskChange {
+  id: string;
+  title: string;
+  bucket: string;
+  assignees?: string[];
+  by?: string;
+  from?: string;
+  to?: string;
+  added?: string[];
+  removed?: string[];
+  due?: { from?: string; to?: string };
+  start?: { from?: string; to?: string };
+}
+
+export interface PlanChanges {
+  since: string;
+  until: string;
+  // snapshot: compared with a saved snapshot; timestamps: only creation, completion and assignment times
+  source: "snapshot" | "timestamps";
+  created: TaskChange[];
+  completed: TaskChange[];
+  reopened: TaskChange[];
+  moved: TaskChange[];
+  reassigned: TaskChange[];
+  redated: TaskChange[];
+  deleted: TaskChange[];
+  notes: string[];
+}
+
+export function emptyChanges(since: string, until: string, source: PlanChanges["source"]): PlanChanges {
+  return { since, until, source, created: [], completed: [], reopened: [], moved: [], reassigned: [], redated: [], deleted: [], notes: [] };
+}
+
+function sameDay(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? "").slice(0, 10) === (b ?? "").slice(0, 10);
+}
+
+// Compares the plan's current tasks with a baseline snapshot (if there is one). Creation and
+// completion are also checked against their timestamps, so they are exact even when the baseline
+// is older than since; moves, reassignments and date changes are relative to the baseline.
+export function diffPlan(current: PlanSnapshot, baseline: PlanSnapshot | undefined, since: string, ctx: PlanContext): PlanChanges {
+  const name = (id: string) => ctx.members.get(id)?.displayName ?? id;
+  const entry = (id: string, task: TaskSnapshot): TaskChange => ({ id, title: task.title, bucket: ctx.buckets.get(task.bucketId) ?? task.bucketId });
+  const changes = emptyChanges(since, current.takenAt, baseline ? "snapshot" : "timestamps");
+
+  for (const [id, task] of Object.entries(current.tasks)) {
+    const before = baseline?.tasks[id];
+    if (!before && (task.createdDateTime ?? "") >= since) {
+      changes.created.push({ ...entry(id, task), assignees: task.assignees.map(name) });
+    }
+    if (task.completedDateTime && task.completedDateTime >= since) {
+      changes.completed.push({ ...entry(id, task), by: task.completedBy && name(task.completedBy) });
+    }
+    if (!before) continue;
+
+    if (before.completedDateTime && !task.completedDateTime) changes.reopened.push(entry(id, task));
+    if (before.bucketId !== task.bucketId) {
+      changes.moved.push({ ...entry(id, task), from: ctx.buckets.get(before.bucketId) ?? before.bucketId, to: ctx.buckets.get(task.bucketId) ?? task.bucketId });
+    }
+    const added = task.assignees.filter((a) => !before.assignees.includes(a));
+    const removed = before.assignees.filter((a) => !task.assignees.includes(a));
+    if (added.length || removed.length) {
+      changes.reassigned.push({ ...entry(id, task), added: added.map(name), removed: removed.map(name) });
+    }
+    const redated: TaskChange = entry(id, task);
+    if (!sameDay(before.dueDateTime, task.dueDateTime)) redated.due = { from: before.dueDateTime?.slice(0, 10), to: task.dueDateTime?.slice(0, 10) };
+    if (!sameDay(before.startDateTime, task.startDateTime)) redated.start = { from: before.startDateTime?.slice(0, 10), to: task.startDateTime?.slice(0, 10) };
+    if (redated.due || redated.start) changes.redated.push(redated);
+  }
+
+  if (baseline) {
+    for (const [id, task] of Object.entries(baseline.tasks)) {
+      if (!current.tasks[id]) changes.deleted.push(entry(id, task));
+    }
+    if (baseline.takenAt < since) {
+      changes.notes.push(`Moves, reassignments, date changes and deletions are since the snapshot of ${readableTime(baseline.takenAt)}`);
+    }
+  }
+  return changes;
+}
+
+// Without a baseline, new assignees still show up through their assignment timestamps
+export function assignmentsSince(tasks: any[], since: string, ctx: PlanContext): TaskChange[] {
+  const changes: TaskChange[] = [];
+  for (const task of tasks) {
+    if ((task.createdDateTime ?? "") >= since) continue;
+    const added = Object.entries(task.assignments ?? {})
+      .filter(([, assignment]: [string, any]) => (assignment?.assignedDateTime ?? "") >= since)
+      .map(([id]) => ctx.members.get(id)?.displayName ?? id);
+    if (added.length) {
+      changes.push({ id: task.id, title: task.title, bucket: ctx.buckets.get(task.bucketId) ?? task.bucketId, added, removed: [] });
+    }
+  }
+  return changes;
+}
+
+function readableTime(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function dateChange(label: string, change: { from?: string; to?: string }): string {
+  return `${label} ${change.from ?? "none"} → ${change.to ?? "none"}`;
+}
+
+const SECTIONS: { key: keyof PlanChanges; heading: string; line: (c: TaskChange) => string }[] = [
+  { key: "created", heading: "Created", line: (c) => `${c.title} (${[c.bucket, ...(c.assignees ?? [])].join(", ")})` },
+  { key: "completed", heading: "Completed", line: (c) => (c.by ? `${c.title} (by ${c.by})` : c.title) },
+  { key: "reopened", heading: "Reopened", line: (c) => c.title },
+  { key: "moved", heading: "Moved", line: (c) => `${c.title}: ${c.from} → ${c.to}` },
+  {
+    key: "reassigned",
+    heading: "Reassigned",
+    line: (c) => `${c.title}: ${[...(c.added ?? []).map((n) => `+${n}`), ...(c.removed ?? []).map((n) => `−${n}`)].join(", ")}`,
+  },
+  {
+    key: "redated",
+    heading: "Re-dated",
+    line: (c) => `${c.title}: ${[c.due && dateChange("due", c.due), c.start && dateChange("start", c.start)].filter(Boolean).join("; ")}`,
+  },
+  { key: "deleted", heading: "Deleted", line: (c) => c.title },
+];
+
+// Standup-style summary: one section per kind of change, empty sections left out
+export function markdownChanges(changes: PlanChanges, planTitle: string): string {
+  const parts = [`**${planTitle}: changes since ${readableTime(changes.since)}**`];
+  for (const { key, heading, line } of SECTIONS) {
+    const items = changes[key] as TaskChange[];
+    if (items.length) parts.push(`### ${heading} (${items.length})\n\n${items.map((c) => `- ${line(c)}`).join("\n")}`);
+  }
+  if (parts.length === 1) parts.push("No changes.");
+  if (changes.notes.length) parts.push(changes.notes.map((note) => `_${note}_`).join("\n"));
+  return parts.join("\n\n");
+}
@@ -0,0 +1,143 @@
+import { randomUUID } from "crypto";
+import { byOrderHint } from "./format.js";
+import { hintsBetween } from "./orderhints.js";
+import { NotFoundError, ValidationError } from "./errors.js";
+
+// Planner keeps at most 20 checklist items per task
+export const CHECKLIST_LIMIT = 20;
+
+export interface ChecklistLine {
+  title: string;
+  isChecked: boolean;
+}
+
+// A checklist item with its ID, in display order
+export interface OrderedChecklistItem extends ChecklistLine {
+  id: string;
+  orderHint: string;
+}
+
+export function orderedChecklist(checklist: Record<string, any> | undefined): OrderedChecklistItem[] {
+  return Object.entries(checklist ?? {})
+    .map(([id, item]) => ({ id, title: item.title, isChecked: Boolean(item.isChecked), orderHint: item.orderHint ?? "" }))
+    .sort(byOrderHint);
+}
+
+const TASK_LINE = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*\S)\s*$/;
+
+// Reads a Markdown task list ("- [ ] todo", "- [x] done"). Plain bullets count as unchecked;
+// headings, blank lines and other text are ignored.
+export function parseMarkdownChecklist(markdown: string): ChecklistLine[] {
+  const items: ChecklistLine[] = [];
+  for (const line of markdown.split(/\r?\n/)) {
+    const match = line.match(TASK_LINE);
+    if (match) items.push({ title: match[2], isChecked: match[1] !== undefined && match[1] !== " " });
+  }
+  return items;
+}
+
+export function checklistToMarkdown(items: ChecklistLine[]): string {
+  return items.map((item) => `- [${item.isChecked ? "x" : " "}] ${item.title}`).join("\n");
+}
+
+// Checklist PATCH entries for new items, with order hints so they appear in the given order
+// between two existing items (or at either end when a neighbour is omitted)
+export function orderedChecklistEntries(items: ChecklistLine[], after?: string, before?: string): Record<string, any> {
+  const hints = hintsBetween(after, before, items.length);
+  const checklist: Record<string, any> = {};
+  items.forEach((item, i) => {
+    checklist[randomUUID()] = {
+      "@odata.type": "#microsoft.graph.plannerChecklistItem",
+      title: item.title,
+      isChecked: item.isChecked,
+      orderHint: hints[i],
+    };
+  });
+  return checklist;
+}
+
+export const CHECKLIST_IMPORT_MODES = ["append", "replace"] as const;
+
+export type ChecklistImportMode = (typeof CHECKLIST_IMPORT_MODES)[number];
+
+export interface ChecklistImport {
+  patch: Record<string, any>;
+  added: number;
+  updated: number;
+  removed: number;
+  // Items left out because the task would go over CHECKLIST_LIMIT
+  skipped: string[];
+}
+
+// Works out the checklist PATCH for importing a list. append adds the items after the existing
+// ones; replace makes the checklist exactly the list, keeping the IDs of items whose title matches.
+export function planChecklistImport(current: Record<string, any> | undefined, items: ChecklistLine[], mode: ChecklistImportMode): ChecklistImport {
+  const existing = orderedChecklist(current);
+
+  if (mode === "append") {
+    const room = Math.max(0, CHECKLIST_LIMIT - existing.length);
+    const kept = items.slice(0, room);
+    const last = existing[existing.length - 1];
+    return {
+      patch: orderedChecklistEntries(kept, last?.orderHint),
+      added: kept.length,
+      updated: 0,
+      removed: 0,
+      skipped: items.slice(room).map((item) => item.title),
+    };
+  }
+
+  const kept = items.slice(0, CHECKLIST_LIMIT);
+  const hints = hintsBetween(undefined, undefined, kept.length);
+  const patch: Record<string, any> = {};
+  const matched = new Set<string>();
+  let added = 0;
+  let updated = 0;
+  kept.forEach((item, i) => {
+    const match = existing.find((e) => !matched.has(e.id) && e.title === item.title);
+    const entry = { "@odata.type": "#microsoft.graph.plannerChecklistItem", isChecked: item.isChecked, orderHint: hints[i] };
+    if (match) {
+      matched.add(match.id);
+      patch[match.id] = entry;
+      updated++;
+    } else {
+      patch[randomUUID()] = { ...entry, title: item.title };
+      added++;
+    }
+  });
+  const stale = existing.filter((e) => !matched.has(e.id));
+  for (const item of stale) patch[item.id] = null;
+  return { patch, added, updated, removed: stale.length, skipped: items.slice(CHECKLIST_LIMIT).map((item) => item.title) };
+}
+
+// Finds a checklist item by ID or (case-insensitive) title
+export function findChecklistItem(checklist: Record<string, any> | undefined, ref: string): OrderedChecklistItem {
+  const items = orderedChecklist(checklist);
+  const byId = items.find((item) => item.id === ref);
+  if (byId) return byId;
+  const needle = ref.trim().toLowerCase();
+  const matches = items.filter((item) => item.title.trim().toLowerCase() === needle);
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new ValidationError(`Checklist item title "${ref}" is ambiguous`, { candidates: matches.map(({ id, title }) => ({ id, title })) });
+  }
+  throw new NotFoundError(`No checklist item "${ref}" on this task`, { items: items.map(({ id, title }) => ({ id, title })) });
+}
+
+// Order hint PATCH that puts the given items (IDs or titles) first, in that order; items not
+// listed follow in their current order
+export function reorderChecklist(checklist: Record<string, any> | undefined, refs: string[]): Record<string, any> {
+  const listed = refs.map((ref) => findChecklistItem(checklist, ref));
+  const ids = listed.map((item) => item.id);
+  const duplicates = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (duplicates.length > 0) {
+    throw new ValidationError("The same checklist item is listed more than once", { duplicates: [...new Set(duplicates)] });
+  }
+  const sequence = [...listed, ...orderedChecklist(checklist).filter((item) => !ids.includes(item.id))];
+  const hints = hintsBetween(undefined, undefined, sequence.length);
+  const patch: Record<string, any> = {};
+  sequence.forEach((item, i) => {
+    patch[item.id] = { "@odata.type": "#microsoft.graph.plannerChecklistItem", orderHint: hints[i] };
+  });
+  return patch;
+}
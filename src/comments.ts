@@ -0,0 +1,146 @@
+import { GraphClient, Page, PageOptions } from "./graph.js";
+import { NotFoundError, ValidationError } from "./errors.js";
+import { batchError, patchWithConcurrency } from "./concurrency.js";
+import { GroupMember, resolveMembers } from "./members.js";
+
+// A post in the group conversation behind a task
+export interface TaskComment {
+  id: string;
+  threadId: string;
+  content?: string;
+  contentType?: string;
+  createdDateTime?: string;
+  from?: string;
+  fromAddress?: string;
+}
+
+// Planner's conversationThreadId is a conversation ID - get threads from it, then every thread's
+// posts in one $batch pass (pages past the first are followed per thread)
+export async function listTaskComments(graph: GraphClient, groupId: string, conversationId: string): Promise<TaskComment[]> {
+  const conversationPath = `/groups/${groupId}/conversations/${conversationId}`;
+  const threads = await graph.listAll(`${conversationPath}/threads`);
+  const postsPath = (threadId: string) => `${conversationPath}/threads/${threadId}/posts`;
+  const responses = await graph.batch(threads.map((thread: any) => ({ id: thread.id, method: "GET", url: postsPath(thread.id) })));
+
+  const comments: TaskComment[] = [];
+  for (const thread of threads) {
+    const response = responses.get(thread.id);
+    if (response?.status !== 200) throw batchError("GET", postsPath(thread.id), response);
+    const posts = [...(response.body?.value ?? [])];
+    if (response.body?.["@odata.nextLink"]) posts.push(...(await graph.listAll(response.body["@odata.nextLink"])));
+
+    for (const post of posts) {
+      comments.push({
+        id: post.id,
+        threadId: thread.id,
+        content: post.body?.content,
+        contentType: post.body?.contentType,
+        createdDateTime: post.createdDateTime,
+        from: post.from?.emailAddress?.name || post.from?.emailAddress?.address,
+        fromAddress: post.from?.emailAddress?.address,
+      });
+    }
+  }
+  return comments.sort((a, b) => Date.parse(a.createdDateTime ?? "") - Date.parse(b.createdDateTime ?? ""));
+}
+
+export interface CommentFilter {
+  // Matches the author's name or address (case-insensitive, partial)
+  author?: string;
+  since?: string;
+  until?: string;
+}
+
+export function filterComments(comments: TaskComment[], filter: CommentFilter): TaskComment[] {
+  const author = filter.author?.trim().toLowerCase();
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+  return comments.filter((comment) => {
+    if (author && ![comment.from, comment.fromAddress].some((value) => value?.toLowerCase().includes(author))) return false;
+    const created = Date.parse(comment.createdDateTime ?? "");
+    if (since !== undefined && !(created >= since)) return false;
+    if (until !== undefined && !(created <= until)) return false;
+    return true;
+  });
+}
+
+// Pages an already-fetched comment list; the cursor is the offset of the next comment
+export function pageComments(comments: TaskComment[], options: PageOptions): Page<TaskComment> {
+  let offset = 0;
+  if (options.cursor) {
+    offset = Number(Buffer.from(options.cursor, "base64url").toString("utf-8"));
+    if (!Number.isInteger(offset) || offset < 0) throw new ValidationError("Invalid cursor");
+  }
+  const end = options.limit ? offset + options.limit : comments.length;
+  return {
+    items: comments.slice(offset, end),
+    nextCursor: end < comments.length ? Buffer.from(String(end)).toString("base64url") : undefined,
+  };
+}
+
+// "@[Display Name]" or "@user@domain" in a comment
+const MENTION = /@\[([^\]]+)\]|@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+// Replaces @-mentions with mailto links to the matching group members. Graph can't send real
+// mentions in group conversations, so a linked name is the closest equivalent.
+export function resolveMentions(markdown: string, members: GroupMember[]): { markdown: string; mentioned: GroupMember[] } {
+  const refs = [...markdown.matchAll(MENTION)].map((m) => m[1] ?? m[2]);
+  if (refs.length === 0) return { markdown, mentioned: [] };
+  const resolved = resolveMembers(members, [...new Set(refs)]);
+  const byRef = new Map([...new Set(refs)].map((ref, i) => [ref, resolved[i]]));
+  const linked = markdown.replace(MENTION, (_, name?: string, address?: string) => {
+    const member = byRef.get((name ?? address)!)!;
+    const label = `@${member.displayName ?? name ?? address}`;
+    const mail = member.mail ?? member.userPrincipalName;
+    return mail ? `[${label}](mailto:${mail})` : label;
+  });
+  return { markdown: linked, mentioned: [...new Map(resolved.map((m) => [m.id, m])).values()] };
+}
+
+export interface AddCommentResult {
+  conversationId: string;
+  // True when this comment started the task's conversation
+  created: boolean;
+  // Set when the conversation was created but couldn't be linked to the task
+  warning?: string;
+}
+
+// Replies to the task's conversation, or starts one (and links it to the task) if it has none
+export async function addTaskComment(
+  graph: GraphClient,
+  groupId: string,
+  task: any,
+  content: string,
+  contentType: "text" | "html" = "text"
+): Promise<AddCommentResult> {
+  if (task.conversationThreadId) {
+    // Reply to existing conversation - need to get the thread ID first
+    const conversationPath = `/groups/${groupId}/conversations/${task.conversationThreadId}`;
+    const threadsResult = await graph.get(`${conversationPath}/threads`);
+
+    if (!threadsResult.value || threadsResult.value.length === 0) {
+      throw new NotFoundError("Conversation exists but has no threads", { conversationId: task.conversationThreadId });
+    }
+
+    const threadId = threadsResult.value[0].id;
+    await graph.post(`${conversationPath}/threads/${threadId}/reply`, { post: { body: { contentType, content } } });
+    return { conversationId: task.conversationThreadId, created: false };
+  }
+
+  // Create new conversation (POST to threads creates a conversation with initial thread)
+  const threadResult = await graph.post(`/groups/${groupId}/threads`, {
+    topic: task.title,
+    posts: [{ body: { contentType, content } }],
+  });
+  // Graph API returns conversationId for the parent conversation - that's what Planner needs
+  const conversationId = threadResult.conversationId || threadResult.id;
+
+  // Update task with the conversation ID
+  try {
+    await patchWithConcurrency(graph, `/planner/tasks/${task.id}`, { conversationThreadId: conversationId });
+  } catch {
+    // Thread was created but task update may fail - comment still exists
+    return { conversationId, created: true, warning: "Thread created but task link may have failed" };
+  }
+  return { conversationId, created: true };
+}
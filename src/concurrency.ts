@@ -0,0 +1,231 @@
+import { ConflictError, PlannerError, errorFromResponse } from "./errors.js";
+import { BatchResponse, GraphClient } from "./graph.js";
+
+// One field (dotted path into the PATCH body) that someone else changed while we were editing it
+export interface FieldConflict {
+  field: string;
+  // Value when we read the resource
+  base: unknown;
+  // Value after the intervening edit
+  theirs: unknown;
+  // Value we tried to write (null means delete)
+  ours: unknown;
+}
+
+// Raised when an intervening edit touched the same fields we were changing. Non-conflicting
+// fields are still written; `applied` lists them so the caller knows what did land.
+export class EtagConflictError extends ConflictError {
+  constructor(
+    readonly path: string,
+    readonly conflicts: FieldConflict[],
+    readonly applied: string[]
+  ) {
+    super(`Conflicting concurrent edit on ${path}`, {
+      status: 412,
+      code: "etagConflict",
+      hint: "Someone else changed these fields; review both versions and retry the ones you still want",
+      conflicts,
+      applied,
+    });
+  }
+}
+
+export interface PatchOutcome {
+  // The ETag precondition failed at least once and the change was re-applied on fresh data
+  retried: boolean;
+}
+
+const MAX_ATTEMPTS = 3;
+
+// ETag-guarded PATCH that survives concurrent edits. Reads the resource, PATCHes with its ETag,
+// and on 412 re-reads it and compares the fields being changed: if the intervening edit left
+// them alone the PATCH is simply retried; fields it also changed are dropped from the retry and
+// reported as conflicts (showing base, theirs and ours) once the rest has been applied.
+// `changes` may instead be a function of the resource, for edits relative to its current state
+// (add to a checklist, replace assignees); it is called again on every re-read so the retry is
+// worked out against the latest version, and there are no field conflicts to report.
+export async function patchWithConcurrency(
+  graph: GraphClient,
+  path: string,
+  changes: Record<string, any> | ((current: any) => Record<string, any>)
+): Promise<PatchOutcome> {
+  let base = await graph.get(path);
+  let pending = typeof changes === "function" ? changes(base) : changes;
+  const conflicts: FieldConflict[] = [];
+  if (Object.keys(pending).length === 0) {
+    return { retried: false };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let applied = false;
+    try {
+      await graph.patch(path, pending, base["@odata.etag"]);
+      applied = true;
+    } catch (error) {
+      if (!(error instanceof ConflictError && error.status === 412) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+    }
+    if (applied) {
+      if (conflicts.length > 0) {
+        throw new EtagConflictError(path, conflicts, leafPaths(pending));
+      }
+      return { retried: attempt > 1 };
+    }
+
+    const latest = await graph.get(path);
+    if (typeof changes === "function") {
+      base = latest;
+      pending = changes(latest);
+      if (Object.keys(pending).length === 0) {
+        return { retried: true };
+      }
+      continue;
+    }
+    const found = findConflicts(pending, base, latest);
+    if (found.length > 0) {
+      conflicts.push(...found);
+      pending = withoutFields(pending, new Set(found.map((c) => c.field)));
+      if (Object.keys(pending).length === 0) {
+        throw new EtagConflictError(path, conflicts, []);
+      }
+    }
+    base = latest;
+  }
+}
+
+// One resource to PATCH in a batch, with the copy of it the changes were computed from
+export interface BatchPatchItem {
+  path: string;
+  base: any;
+  changes: Record<string, any>;
+}
+
+export type BatchPatchResult = { ok: true; retried: boolean } | { ok: false; error: PlannerError };
+
+// Batch counterpart of patchWithConcurrency: PATCHes every item through $batch with its own ETag,
+// re-reads the ones that hit 412 in one batch and retries them with the same conflict rules.
+// Never throws for a single item; each gets its own result, in input order.
+export async function batchPatchWithConcurrency(graph: GraphClient, items: BatchPatchItem[]): Promise<BatchPatchResult[]> {
+  const results: (BatchPatchResult | undefined)[] = items.map(() => undefined);
+  const state = items.map((item) => ({ ...item, pending: item.changes, conflicts: [] as FieldConflict[] }));
+  let active = state.map((_, i) => i).filter((i) => Object.keys(state[i].pending).length > 0);
+  for (const i of state.keys()) {
+    if (!active.includes(i)) results[i] = { ok: true, retried: false };
+  }
+
+  for (let attempt = 1; active.length > 0; attempt++) {
+    const responses = await graph.batch(active.map((i) => ({
+      id: String(i),
+      method: "PATCH",
+      url: state[i].path,
+      headers: { "If-Match": state[i].base["@odata.etag"] },
+      body: state[i].pending,
+    })));
+
+    const stale: number[] = [];
+    for (const i of active) {
+      const response = responses.get(String(i));
+      const item = state[i];
+      if (response && response.status >= 200 && response.status < 300) {
+        results[i] = item.conflicts.length > 0
+          ? { ok: false, error: new EtagConflictError(item.path, item.conflicts, leafPaths(item.pending)) }
+          : { ok: true, retried: attempt > 1 };
+      } else if (response?.status === 412 && attempt < MAX_ATTEMPTS) {
+        stale.push(i);
+      } else {
+        results[i] = { ok: false, error: batchError("PATCH", item.path, response) };
+      }
+    }
+    if (stale.length === 0) break;
+
+    const latest = await graph.batch(stale.map((i) => ({ id: String(i), method: "GET", url: state[i].path })));
+    active = [];
+    for (const i of stale) {
+      const response = latest.get(String(i));
+      const item = state[i];
+      if (!response || response.status !== 200) {
+        results[i] = { ok: false, error: batchError("GET", item.path, response) };
+        continue;
+      }
+      const found = findConflicts(item.pending, item.base, response.body);
+      item.conflicts.push(...found);
+      item.pending = withoutFields(item.pending, new Set(found.map((c) => c.field)));
+      item.base = response.body;
+      if (Object.keys(item.pending).length === 0) {
+        results[i] = { ok: false, error: new EtagConflictError(item.path, item.conflicts, []) };
+      } else {
+        active.push(i);
+      }
+    }
+  }
+  return results.map((result) => result!);
+}
+
+// Maps a failed (or missing) batch response onto the error hierarchy
+export function batchError(method: string, path: string, response: BatchResponse | undefined): PlannerError {
+  if (!response) {
+    return new PlannerError("graph_error", "No response for this request in the batch", { request: `${method} ${path}` });
+  }
+  const retryAfter = Object.entries(response.headers ?? {}).find(([k]) => k.toLowerCase() === "retry-after")?.[1];
+  return errorFromResponse(method, path, response.status, response.body ? JSON.stringify(response.body) : "", retryAfter);
+}
+
+// A changed field conflicts when its value moved between our read (base) and now (latest),
+// unless the other writer happened to set exactly what we wanted
+function findConflicts(changes: Record<string, any>, base: any, latest: any, prefix: string[] = []): FieldConflict[] {
+  const conflicts: FieldConflict[] = [];
+  for (const [key, ours] of Object.entries(changes)) {
+    if (key === "@odata.type") continue;
+    const path = [...prefix, key];
+    if (isPlainObject(ours)) {
+      conflicts.push(...findConflicts(ours, base?.[key], latest?.[key], path));
+      continue;
+    }
+    const before = base?.[key];
+    const theirs = latest?.[key];
+    if (!deepEqual(before, theirs) && !deepEqual(theirs, ours ?? undefined)) {
+      conflicts.push({ field: path.join("."), base: before, theirs, ours });
+    }
+  }
+  return conflicts;
+}
+
+// Copy of a PATCH body without the given leaf fields; objects left holding only their
+// @odata.type annotation are dropped too
+function withoutFields(changes: Record<string, any>, fields: Set<string>, prefix = ""): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (fields.has(path)) continue;
+    if (isPlainObject(value)) {
+      const nested = withoutFields(value, fields, path);
+      if (Object.keys(nested).some((k) => k !== "@odata.type")) result[key] = nested;
+      continue;
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+function leafPaths(changes: Record<string, any>, prefix = ""): string[] {
+  return Object.entries(changes).flatMap(([key, value]) => {
+    if (key === "@odata.type") return [];
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isPlainObject(value) ? leafPaths(value, path) : [path];
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => deepEqual((a as any)[key], (b as any)[key]));
+}
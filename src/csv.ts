@@ -0,0 +1,63 @@
+import { ValidationError } from "./errors.js";
+
+// Minimal RFC 4180 reader: comma separated, double-quoted fields may hold commas, newlines and
+// "" escapes. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  while (i < input.length) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (c === '"') quoted = false;
+      else field += c;
+      i++;
+      continue;
+    }
+    if (c === '"' && field === "") quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      endRow();
+      if (c === "\r" && input[i + 1] === "\n") i++;
+    } else field += c;
+    i++;
+  }
+  if (quoted) throw new ValidationError("CSV has an unterminated quoted field");
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// Rows as objects keyed by the header row, with header names normalized
+// ("Due Date", "due_date" and "dueDate" all become "duedate")
+export function csvRecords(text: string): { row: number; values: Record<string, string> }[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase().replace(/[\s_-]+/g, ""));
+  return rows.map((row, i) => ({
+    // Spreadsheet row number (the header is row 1)
+    row: i + 2,
+    values: Object.fromEntries(columns.map((column, c) => [column, (row[c] ?? "").trim()])),
+  }));
+}
+
+// Splits a multi-value cell ("a; b; c")
+export function splitCell(value: string | undefined): string[] {
+  return (value ?? "").split(";").map((part) => part.trim()).filter(Boolean);
+}
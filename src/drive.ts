@@ -0,0 +1,102 @@
+import { GraphClient } from "./graph.js";
+import { ValidationError } from "./errors.js";
+
+// Simple PUT uploads are limited to 4MB; anything larger goes through an upload session
+export const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024;
+
+// Upload session chunks must be multiples of 320 KiB; 10 MiB is the size Graph recommends
+export const UPLOAD_CHUNK_SIZE = 32 * 320 * 1024;
+
+export const DEFAULT_ATTACHMENT_FOLDER = "Planner Attachments";
+
+export const CONFLICT_BEHAVIORS = ["rename", "replace", "fail"] as const;
+
+export type ConflictBehavior = (typeof CONFLICT_BEHAVIORS)[number];
+
+// "none" skips creating a sharing link and attaches the item's own URL (existing permissions apply)
+export const LINK_SCOPES = ["organization", "users", "anonymous", "none"] as const;
+
+export type LinkScope = (typeof LINK_SCOPES)[number];
+
+export const LINK_TYPES = ["view", "edit"] as const;
+
+export type LinkType = (typeof LINK_TYPES)[number];
+
+// Drive path syntax ("/drives/{id}/root:/a/b.txt:") with each segment encoded separately
+export function drivePath(driveId: string, ...segments: string[]): string {
+  const parts = segments.flatMap((s) => s.split("/")).map((s) => s.trim()).filter(Boolean);
+  if (parts.some((part) => part === "." || part === "..")) {
+    throw new ValidationError("Drive paths can't contain . or .. segments", { path: segments.join("/") });
+  }
+  return parts.length ? `/drives/${driveId}/root:/${parts.map(encodeURIComponent).join("/")}:` : `/drives/${driveId}/root`;
+}
+
+// Uploads a file into a drive folder (created on demand by Graph), using a chunked upload
+// session for files over SIMPLE_UPLOAD_LIMIT. Returns the resulting driveItem.
+export async function uploadFile(
+  graph: GraphClient,
+  driveId: string,
+  folder: string,
+  fileName: string,
+  data: Uint8Array,
+  conflict: ConflictBehavior
+): Promise<any> {
+  const itemPath = drivePath(driveId, folder, fileName);
+  if (data.length <= SIMPLE_UPLOAD_LIMIT) {
+    return graph.put(`${itemPath}/content?@microsoft.graph.conflictBehavior=${conflict}`, data);
+  }
+
+  const session = await graph.post(`${itemPath}/createUploadSession`, {
+    item: { "@microsoft.graph.conflictBehavior": conflict, name: fileName },
+  });
+  try {
+    let item: any;
+    for (let start = 0; start < data.length; start += UPLOAD_CHUNK_SIZE) {
+      const end = Math.min(start + UPLOAD_CHUNK_SIZE, data.length);
+      // The upload URL is pre-authenticated and rejects an Authorization header
+      item = await graph.request("PUT", session.uploadUrl, {
+        body: data.subarray(start, end),
+        headers: { "Content-Range": `bytes ${start}-${end - 1}/${data.length}` },
+        anonymous: true,
+      });
+    }
+    return item;
+  } catch (error) {
+    // Cancel the session so the partial upload doesn't linger in the drive
+    await graph.request("DELETE", session.uploadUrl, { anonymous: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Finds an existing drive item by ID or by path from the drive root
+export async function getDriveItem(graph: GraphClient, driveId: string, ref: { itemId?: string; path?: string }): Promise<any> {
+  if (ref.itemId) return graph.get(`/drives/${driveId}/items/${encodeURIComponent(ref.itemId)}`);
+  return graph.get(drivePath(driveId, ref.path ?? ""));
+}
+
+// The URL to attach: a sharing link of the requested scope, or the item's own URL for "none"
+export async function itemLink(graph: GraphClient, driveId: string, item: any, scope: LinkScope, type: LinkType): Promise<string> {
+  if (scope === "none") return item.webUrl;
+  const result = await graph.post(`/drives/${driveId}/items/${item.id}/createLink`, { type, scope });
+  return result.link.webUrl;
+}
+
+const REFERENCE_TYPES: Record<string, string> = {
+  doc: "Word",
+  docx: "Word",
+  xls: "Excel",
+  xlsx: "Excel",
+  ppt: "PowerPoint",
+  pptx: "PowerPoint",
+  one: "OneNote",
+  mpp: "Project",
+  vsd: "Visio",
+  vsdx: "Visio",
+  pdf: "Pdf",
+};
+
+// Planner reference type for a file name, so the task card shows the right icon
+export function referenceTypeFor(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return REFERENCE_TYPES[extension] ?? "Other";
+}
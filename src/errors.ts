@@ -0,0 +1,132 @@
+import { UserError } from "fastmcp";
+
+export type PlannerErrorType =
+  | "not_found"
+  | "forbidden"
+  | "conflict"
+  | "throttled"
+  | "validation"
+  | "auth_expired"
+  | "graph_error";
+
+// Extra context carried in the error payload (HTTP status, Graph error code, the request, ...)
+export interface PlannerErrorInfo {
+  status?: number;
+  code?: string;
+  // "METHOD /path" of the Graph call that failed
+  request?: string;
+  hint?: string;
+  [key: string]: unknown;
+}
+
+// Base of the error hierarchy. Extends FastMCP's UserError so the message reaches the agent
+// verbatim; the message is a JSON payload ({ error: { type, message, ... } }) so every tool
+// fails in the same machine-readable shape.
+export class PlannerError extends UserError {
+  constructor(
+    readonly type: PlannerErrorType,
+    readonly detail: string,
+    readonly info: PlannerErrorInfo = {}
+  ) {
+    super(JSON.stringify({ error: { type, message: detail, ...info } }, null, 2));
+    this.name = new.target.name;
+  }
+
+  // The payload's inner error object, for embedding in per-item results
+  toJSON(): Record<string, unknown> {
+    return { type: this.type, message: this.detail, ...this.info };
+  }
+
+  get status(): number | undefined {
+    return this.info.status;
+  }
+
+  get code(): string | undefined {
+    return this.info.code;
+  }
+}
+
+export class NotFoundError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo = {}) {
+    super("not_found", detail, { hint: "The task, bucket, plan or item does not exist or was deleted", ...info });
+  }
+}
+
+export class ForbiddenError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo = {}) {
+    super("forbidden", detail, { hint: "The signed-in user lacks permission on this plan, group or resource", ...info });
+  }
+}
+
+// 409 Conflict and 412 Precondition Failed (stale ETag)
+export class ConflictError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo = {}) {
+    super("conflict", detail, { hint: "The resource was changed by someone else; re-read it and try again", ...info });
+  }
+}
+
+export class ThrottledError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo & { retryAfterSeconds?: number } = {}) {
+    super("throttled", detail, { hint: "Graph is throttling requests; wait before retrying", ...info });
+  }
+}
+
+export class ValidationError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo = {}) {
+    super("validation", detail, info);
+  }
+}
+
+export class AuthExpiredError extends PlannerError {
+  constructor(detail: string, info: PlannerErrorInfo = {}) {
+    super("auth_expired", detail, { hint: "Sign in again (e.g. run `az login`) and retry", ...info });
+  }
+}
+
+// Maps a failed Graph response onto the hierarchy, using the Graph error body's code and message
+export function errorFromResponse(
+  method: string,
+  path: string,
+  status: number,
+  body: string,
+  retryAfter?: string | null
+): PlannerError {
+  const { code, message } = parseGraphErrorBody(body);
+  const detail = message || `Graph returned HTTP ${status}`;
+  const info: PlannerErrorInfo = { status, code, request: `${method} ${path}` };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(detail, info);
+    case 401:
+      return new AuthExpiredError(detail, info);
+    case 403:
+      return new ForbiddenError(detail, info);
+    case 404:
+    case 410:
+      return new NotFoundError(detail, info);
+    case 409:
+    case 412:
+      return new ConflictError(detail, info);
+    case 429:
+    case 503: {
+      const seconds = Number(retryAfter);
+      return new ThrottledError(detail, Number.isFinite(seconds) && retryAfter ? { ...info, retryAfterSeconds: seconds } : info);
+    }
+    default:
+      return new PlannerError("graph_error", detail, info);
+  }
+}
+
+// Pulls the code and human-readable message out of a Graph error body ({ error: { code, message } })
+function parseGraphErrorBody(text: string): { code?: string; message?: string } {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.error) {
+      return { code: parsed.error.code, message: parsed.error.message };
+    }
+  } catch {}
+  return { message: text };
+}
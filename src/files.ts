@@ -0,0 +1,43 @@
+import { existsSync, realpathSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { ForbiddenError } from "./errors.js";
+import { currentSession } from "./session.js";
+
+// Directory the path parameters of tools (csvPath, manifestPath, archivePath, outputPath, filePath)
+// are confined to. Unset, stdio sessions can use any path the server can, and HTTP sessions none:
+// over HTTP those paths would let any caller read or overwrite files on the server.
+export function filesDirFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.PLANNER_FILES_DIR || undefined;
+}
+
+// Helper to resolve symlinks in the part of a path that exists, so a link can't point out of the
+// files directory; the rest (a file about to be written) is kept as given
+function realPath(path: string): string {
+  if (existsSync(path)) return realpathSync(path);
+  const parent = dirname(path);
+  return parent === path ? path : join(realPath(parent), basename(path));
+}
+
+// Checks a path given to a tool and returns the one to open. With a files directory, relative
+// paths are taken from it and anything resolving outside it is refused.
+export function localPath(path: string, param: string, filesDir = filesDirFromEnv()): string {
+  if (!filesDir) {
+    if (currentSession()) {
+      throw new ForbiddenError(`${param} is not available over the shared HTTP transport`, {
+        hint: "Pass the content inline instead, or ask the server's operator to set PLANNER_FILES_DIR",
+        [param]: path,
+      });
+    }
+    return path;
+  }
+  const root = realPath(resolve(filesDir));
+  const resolved = realPath(resolve(root, path));
+  const inside = relative(root, resolved);
+  if (inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new ForbiddenError(`${param} must be inside the server's files directory`, {
+      hint: "Use a path relative to PLANNER_FILES_DIR",
+      [param]: path,
+    });
+  }
+  return resolved;
+}
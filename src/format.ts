@@ -0,0 +1,213 @@
+import { PlanContext, appliedCategoryKeys, priorityName, taskStatus } from "./query.js";
+import { TaskReference, decodeReferenceKey } from "./references.js";
+import type { TaskComment } from "./comments.js";
+
+export const OUTPUT_FORMATS = ["json", "compact", "markdown"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Planner orders by ordinal comparison of orderHint strings
+export function byOrderHint(a: { orderHint?: string }, b: { orderHint?: string }): number {
+  const ha = a.orderHint ?? "";
+  const hb = b.orderHint ?? "";
+  return ha < hb ? -1 : ha > hb ? 1 : 0;
+}
+
+const STATUS_LABELS = { notStarted: "Not started", inProgress: "In progress", completed: "Completed" };
+
+// Task with IDs resolved to names and Graph metadata dropped
+export function compactTask(task: any, ctx: PlanContext): Record<string, unknown> {
+  const compact: Record<string, unknown> = {
+    id: task.id,
+    title: task.title,
+    planId: task.planId,
+    bucket: ctx.buckets.get(task.bucketId) ?? task.bucketId,
+    status: taskStatus(task),
+    percentComplete: task.percentComplete,
+    priority: priorityName(task.priority),
+    assignees: Object.keys(task.assignments ?? {}).map((id) => ctx.members.get(id)?.displayName ?? id),
+    categories: appliedCategoryKeys(task).map((key) => ctx.categoryLabels[key] ?? key),
+  };
+  if (task.startDateTime) compact.startDateTime = task.startDateTime;
+  if (task.dueDateTime) compact.dueDateTime = task.dueDateTime;
+  if (task.completedDateTime) compact.completedDateTime = task.completedDateTime;
+  if (task.checklistItemCount) {
+    compact.checklist = `${task.checklistItemCount - (task.activeChecklistItemCount ?? 0)}/${task.checklistItemCount}`;
+  }
+  if (task.referenceCount) compact.referenceCount = task.referenceCount;
+  if (task.hasDescription) compact.hasDescription = true;
+  return compact;
+}
+
+// Task details with the checklist in display order and reference keys decoded back into URLs
+export function compactTaskDetails(details: any): Record<string, unknown> {
+  return {
+    id: details.id,
+    description: details.description || "",
+    previewType: details.previewType,
+    checklist: Object.entries(details.checklist ?? {})
+      .map(([id, item]: [string, any]) => ({ id, title: item.title, isChecked: Boolean(item.isChecked), orderHint: item.orderHint }))
+      .sort(byOrderHint)
+      .map(({ orderHint, ...item }) => item),
+    references: Object.entries(details.references ?? {})
+      .map(([key, ref]: [string, any]) => ({ url: decodeReferenceKey(key), alias: ref.alias, type: ref.type, previewPriority: ref.previewPriority }))
+      .sort((a, b) => byOrderHint({ orderHint: a.previewPriority }, { orderHint: b.previewPriority }))
+      .map(({ previewPriority, ...ref }) => ref),
+  };
+}
+
+export function compactPlan(plan: any): Record<string, unknown> {
+  return {
+    id: plan.id,
+    title: plan.title,
+    groupId: plan.container?.containerId,
+    createdDateTime: plan.createdDateTime,
+  };
+}
+
+export function compactBucket(bucket: any): Record<string, unknown> {
+  return { id: bucket.id, name: bucket.name, planId: bucket.planId };
+}
+
+export function compactPlanDetails(details: any, ctx: PlanContext): Record<string, unknown> {
+  const categories: Record<string, string> = {};
+  for (const [key, label] of Object.entries(ctx.categoryLabels)) {
+    if (label) categories[key] = label;
+  }
+  return {
+    id: details.id,
+    categories,
+    sharedWith: Object.entries(details.sharedWith ?? {})
+      .filter(([, shared]) => shared)
+      .map(([id]) => ctx.members.get(id)?.displayName ?? id),
+  };
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+// Markdown table from uniform rows; columns come from the first row's keys
+export function markdownTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "_No results_";
+  const columns = Object.keys(rows[0]);
+  return [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((c) => cell(row[c])).join(" | ")} |`),
+  ].join("\n");
+}
+
+function date(value: string | undefined): string | undefined {
+  return value ? value.slice(0, 10) : undefined;
+}
+
+export function markdownTask(task: any, ctx: PlanContext): string {
+  const c = compactTask(task, ctx);
+  const lines = [
+    `## ${task.title}`,
+    "",
+    `- **Bucket:** ${c.bucket}`,
+    `- **Status:** ${STATUS_LABELS[taskStatus(task)]} (${task.percentComplete ?? 0}%)`,
+    `- **Priority:** ${c.priority}`,
+  ];
+  if ((c.assignees as string[]).length) lines.push(`- **Assigned to:** ${(c.assignees as string[]).join(", ")}`);
+  if ((c.categories as string[]).length) lines.push(`- **Labels:** ${(c.categories as string[]).join(", ")}`);
+  if (task.startDateTime) lines.push(`- **Start:** ${date(task.startDateTime)}`);
+  if (task.dueDateTime) lines.push(`- **Due:** ${date(task.dueDateTime)}`);
+  if (c.checklist) lines.push(`- **Checklist:** ${c.checklist} done`);
+  lines.push(`- **ID:** \`${task.id}\``);
+  return lines.join("\n");
+}
+
+export function markdownTaskDetails(details: any): string {
+  const c = compactTaskDetails(details);
+  const checklist = c.checklist as { title: string; isChecked: boolean }[];
+  const references = c.references as { url: string; alias?: string }[];
+  const sections = [`### Description\n\n${c.description || "_No description_"}`];
+  if (checklist.length) {
+    sections.push(`### Checklist\n\n${checklist.map((i) => `- [${i.isChecked ? "x" : " "}] ${i.title}`).join("\n")}`);
+  }
+  if (references.length) {
+    sections.push(`### References\n\n${references.map((r) => `- [${r.alias || r.url}](${r.url})`).join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
+
+export function markdownTaskTable(tasks: any[], contextFor: (task: any) => PlanContext): string {
+  return markdownTable(tasks.map((task) => {
+    const c = compactTask(task, contextFor(task));
+    return {
+      Title: c.title,
+      Bucket: c.bucket,
+      Status: STATUS_LABELS[taskStatus(task)],
+      Assigned: c.assignees,
+      Due: date(task.dueDateTime),
+      Priority: c.priority,
+      Labels: c.categories,
+      ID: c.id,
+    };
+  }));
+}
+
+export function markdownPlanDetails(details: any, ctx: PlanContext): string {
+  const c = compactPlanDetails(details, ctx);
+  const categories = Object.entries(c.categories as Record<string, string>);
+  const shared = c.sharedWith as string[];
+  return [
+    "### Category labels",
+    "",
+    categories.length ? categories.map(([key, label]) => `- **${label}** (${key})`).join("\n") : "_No labels defined_",
+    "",
+    "### Shared with",
+    "",
+    shared.length ? shared.map((name) => `- ${name}`).join("\n") : "_Nobody_",
+  ].join("\n");
+}
+
+// A board view as one section per column, tasks numbered in display order
+export function markdownBoard(columns: { name: string; tasks: any[] }[], ctx: PlanContext): string {
+  return columns.map(({ name, tasks }) => {
+    const lines = tasks.map((task, i) => {
+      const c = compactTask(task, ctx);
+      const extras = [
+        (c.assignees as string[]).join(", "),
+        task.dueDateTime ? `due ${date(task.dueDateTime)}` : "",
+        STATUS_LABELS[taskStatus(task)],
+      ].filter(Boolean);
+      return `${i + 1}. ${task.title} (${extras.join(", ")}) \`${task.id}\``;
+    });
+    return `### ${name} (${tasks.length})\n\n${lines.length ? lines.join("\n") : "_No tasks_"}`;
+  }).join("\n\n");
+}
+
+export function compactComment(comment: TaskComment): Record<string, unknown> {
+  return { id: comment.id, from: comment.from, createdDateTime: comment.createdDateTime, content: comment.content };
+}
+
+// Comments oldest first, one section per post
+export function markdownComments(comments: TaskComment[]): string {
+  if (comments.length === 0) return "_No comments_";
+  return comments
+    .map((c) => `**${c.from ?? "Unknown"}** · ${(c.createdDateTime ?? "").slice(0, 16).replace("T", " ")}\n\n${(c.content ?? "").trim()}`)
+    .join("\n\n---\n\n");
+}
+
+export function compactReference(ref: Omit<TaskReference, "key">): Record<string, unknown> {
+  const compact: Record<string, unknown> = { url: ref.url, alias: ref.alias, type: ref.type };
+  if (ref.github) compact.github = ref.github.alias;
+  return compact;
+}
+
+// References in preview priority order as a list of links
+export function markdownReferences(references: Omit<TaskReference, "key">[]): string {
+  if (references.length === 0) return "_No references_";
+  return references.map((r) => `- [${r.alias || r.url}](${r.url})${r.type ? ` (${r.type})` : ""}`).join("\n");
+}
+
+// Serializes a tool result: compact output skips indentation to keep responses small
+export function serialize(value: unknown, format: OutputFormat): string {
+  return format === "compact" ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,331 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { AuthExpiredError, PlannerError, ValidationError, errorFromResponse } from "./errors.js";
+import { RetryPolicy, computeRetryDelay, isRetryableStatus, parseRetryAfter, retryPolicyFromEnv, sleep } from "./retry.js";
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+
+// Source of bearer tokens for Graph requests
+export interface CredentialProvider {
+  getToken(): Promise<string>;
+}
+
+// Uses the Azure CLI login (`az login`) to mint Graph tokens, cached until shortly before expiry
+export class AzureCliCredential implements CredentialProvider {
+  private token?: string;
+  private expiresAt = 0;
+
+  async getToken(): Promise<string> {
+    // Refresh five minutes early so long-running tools don't race the expiry
+    if (this.token && Date.now() < this.expiresAt - 5 * 60 * 1000) {
+      return this.token;
+    }
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        "az",
+        ["account", "get-access-token", "--resource-type", "ms-graph", "--output", "json"],
+        { encoding: "utf-8", shell: process.platform === "win32" }
+      ));
+    } catch (error: any) {
+      const reason = String(error.stderr || error.message).trim().split("\n")[0];
+      throw new AuthExpiredError(`Azure CLI could not provide a Graph token: ${reason}`);
+    }
+    const result = JSON.parse(stdout);
+    this.token = result.accessToken as string;
+    // Newer CLI versions return epoch seconds in expires_on; older ones only a local time string
+    this.expiresAt = result.expires_on
+      ? Number(result.expires_on) * 1000
+      : new Date(result.expiresOn).getTime();
+    return this.token;
+  }
+}
+
+// Fixed bearer token (e.g. from GRAPH_ACCESS_TOKEN, or a dummy token against a mock Graph server)
+export class StaticTokenCredential implements CredentialProvider {
+  constructor(private readonly token: string) {}
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+}
+
+// Picks a credential provider from the environment: GRAPH_ACCESS_TOKEN wins, otherwise Azure CLI
+export function credentialFromEnv(env: NodeJS.ProcessEnv = process.env): CredentialProvider {
+  if (env.GRAPH_ACCESS_TOKEN) {
+    return new StaticTokenCredential(env.GRAPH_ACCESS_TOKEN);
+  }
+  return new AzureCliCredential();
+}
+
+export interface GraphClientOptions {
+  credential: CredentialProvider;
+  // Override to point at a local mock Graph server (defaults to the public v1.0 endpoint)
+  baseUrl?: string;
+  // Defaults to retryPolicyFromEnv()
+  retry?: RetryPolicy;
+  // Called after every successful write (POST, PATCH, PUT, DELETE), including writes inside $batch
+  onChange?: ChangeListener;
+  // Called with the response of every successful GET (not those inside $batch)
+  onRead?: ReadListener;
+}
+
+export type ChangeListener = (method: string, path: string, body?: unknown) => void;
+export type ReadListener = (path: string, response: unknown) => void;
+
+export interface GraphRequestOptions {
+  body?: unknown;
+  // Sent as If-Match for Planner's optimistic concurrency
+  etag?: string;
+  headers?: Record<string, string>;
+  // Content-Type for raw (Buffer/Uint8Array) bodies
+  contentType?: string;
+  // Leave out the Authorization header (pre-authenticated URLs such as upload sessions reject it)
+  anonymous?: boolean;
+}
+
+export interface PageOptions {
+  // Maximum number of items to return; omit to follow @odata.nextLink to completion
+  limit?: number;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Present when more items remain; pass back as `cursor` to continue
+  nextCursor?: string;
+}
+
+// One request inside a JSON $batch call; `url` is relative to the version root ("/planner/tasks/123")
+export interface BatchRequest {
+  id: string;
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface BatchResponse {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+// Graph JSON batching accepts at most 20 requests per call
+export const MAX_BATCH_SIZE = 20;
+
+// In-process Microsoft Graph client; every tool goes through this instead of shelling out
+export class GraphClient {
+  readonly baseUrl: string;
+  readonly retry: RetryPolicy;
+  private readonly credential: CredentialProvider;
+  private readonly onChange?: ChangeListener;
+  private readonly onRead?: ReadListener;
+
+  constructor(options: GraphClientOptions) {
+    this.credential = options.credential;
+    this.onChange = options.onChange;
+    this.onRead = options.onRead;
+    this.baseUrl = (options.baseUrl || DEFAULT_GRAPH_BASE_URL).replace(/\/+$/, "");
+    this.retry = options.retry ?? retryPolicyFromEnv();
+  }
+
+  // Resolves a Graph path ("/planner/tasks/123") against the base URL; absolute URLs pass through
+  url(path: string): string {
+    if (/^https?:\/\//i.test(path)) return path;
+    return `${this.baseUrl}${path.startsWith("/") ? "" : "/"}${path}`;
+  }
+
+  async request<T = any>(method: string, path: string, options: GraphRequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = { ...options.headers };
+    if (!options.anonymous) headers.Authorization = `Bearer ${await this.credential.getToken()}`;
+    if (options.etag) headers["If-Match"] = options.etag;
+
+    let body: BodyInit | undefined;
+    if (options.body instanceof Uint8Array) {
+      headers["Content-Type"] = options.contentType || "application/octet-stream";
+      body = options.body as Uint8Array<ArrayBuffer>;
+    } else if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(options.body);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchWithRetry(method, path, { method, headers, body });
+    } catch (error: any) {
+      throw new PlannerError("graph_error", `Could not reach Microsoft Graph: ${error.cause?.message || error.message}`, {
+        request: `${method} ${path}`,
+      });
+    }
+    const text = await response.text();
+    if (!response.ok) {
+      throw errorFromResponse(method, path, response.status, text, response.headers.get("Retry-After"));
+    }
+    if (method !== "GET" && path !== "/$batch") this.onChange?.(method, path, options.body);
+    // PATCH/DELETE on Planner return 204 No Content
+    const result = text ? JSON.parse(text) : undefined;
+    if (method === "GET" && result !== undefined) this.onRead?.(path, result);
+    return result as T;
+  }
+
+  // Sends the request, retrying throttled/transient failures per the retry policy. The last
+  // response (or network error) is handed back once retries or the total wait budget run out.
+  private async fetchWithRetry(method: string, path: string, init: RequestInit): Promise<Response> {
+    let waited = 0;
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      let networkError: unknown;
+      try {
+        response = await fetch(this.url(path), init);
+      } catch (error) {
+        networkError = error;
+      }
+
+      const retryable = response
+        ? isRetryableStatus(response.status, method)
+        : method.toUpperCase() !== "POST";
+      if (!retryable || attempt >= this.retry.maxRetries) {
+        if (response) return response;
+        throw networkError;
+      }
+
+      const delay = computeRetryDelay(this.retry, attempt, parseRetryAfter(response?.headers.get("Retry-After")));
+      if (waited + delay > this.retry.maxTotalWaitMs) {
+        if (response) return response;
+        throw networkError;
+      }
+      // Drain the body so the connection can be reused
+      await response?.arrayBuffer().catch(() => undefined);
+      await sleep(delay);
+      waited += delay;
+    }
+  }
+
+  get<T = any>(path: string, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>("GET", path, { headers });
+  }
+
+  post<T = any>(path: string, body: unknown, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>("POST", path, { body, headers });
+  }
+
+  patch<T = any>(path: string, body: unknown, etag?: string): Promise<T> {
+    return this.request<T>("PATCH", path, { body, etag });
+  }
+
+  put<T = any>(path: string, body: Uint8Array, contentType?: string): Promise<T> {
+    return this.request<T>("PUT", path, { body, contentType });
+  }
+
+  delete(path: string, etag?: string): Promise<void> {
+    return this.request<void>("DELETE", path, { etag });
+  }
+
+  // Sends requests through /$batch in chunks of 20. Throttled or transient per-request failures
+  // are re-sent under the same retry policy as single requests; everything else is returned as-is,
+  // keyed by request ID, so callers can report per-item outcomes.
+  async batch(requests: BatchRequest[]): Promise<Map<string, BatchResponse>> {
+    const results = new Map<string, BatchResponse>();
+    let pending = requests;
+    let waited = 0;
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const retry: BatchRequest[] = [];
+      let retryAfterMs: number | undefined;
+      for (let i = 0; i < pending.length; i += MAX_BATCH_SIZE) {
+        const chunk = pending.slice(i, i + MAX_BATCH_SIZE);
+        const result = await this.post("/$batch", {
+          requests: chunk.map((r) => ({
+            ...r,
+            headers: r.body !== undefined ? { "Content-Type": "application/json", ...r.headers } : r.headers,
+          })),
+        });
+        for (const response of result.responses as BatchResponse[]) {
+          results.set(response.id, response);
+          const request = chunk.find((r) => r.id === response.id);
+          if (request && request.method !== "GET" && response.status < 300) this.onChange?.(request.method, request.url, request.body);
+          if (request && isRetryableStatus(response.status, request.method)) {
+            retry.push(request);
+            const after = parseRetryAfter(headerValue(response.headers, "Retry-After"));
+            if (after !== undefined) retryAfterMs = Math.max(retryAfterMs ?? 0, after);
+          }
+        }
+      }
+      if (retry.length === 0 || attempt >= this.retry.maxRetries) break;
+      const delay = computeRetryDelay(this.retry, attempt, retryAfterMs);
+      if (waited + delay > this.retry.maxTotalWaitMs) break;
+      await sleep(delay);
+      waited += delay;
+      pending = retry;
+    }
+    return results;
+  }
+
+  // Fetches a collection, following @odata.nextLink until every page has been read
+  async listAll<T = any>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = path;
+    while (next) {
+      const page: any = await this.get(next);
+      items.push(...(page.value ?? []));
+      next = page["@odata.nextLink"];
+    }
+    return items;
+  }
+
+  // Fetches one caller-sized page of a collection; the cursor records the Graph page URL plus
+  // an offset into it, so a limit that falls mid-page resumes at the right item
+  async listPage<T = any>(path: string, options: PageOptions = {}): Promise<Page<T>> {
+    if (!options.limit && !options.cursor) {
+      return { items: await this.listAll<T>(path) };
+    }
+    const limit = options.limit ?? Infinity;
+    let { url: next, offset } = options.cursor
+      ? this.decodeCursor(options.cursor)
+      : { url: path, offset: 0 };
+    const items: T[] = [];
+    while (next) {
+      const page: any = await this.get(next);
+      const value: T[] = (page.value ?? []).slice(offset);
+      const room = limit - items.length;
+      if (value.length > room) {
+        items.push(...value.slice(0, room));
+        return { items, nextCursor: encodeCursor(next, offset + room) };
+      }
+      items.push(...value);
+      offset = 0;
+      next = page["@odata.nextLink"];
+      if (items.length >= limit && next) {
+        return { items, nextCursor: encodeCursor(next, 0) };
+      }
+    }
+    return { items };
+  }
+
+  private decodeCursor(cursor: string): { url: string; offset: number } {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    } catch {
+      throw new ValidationError("Invalid cursor");
+    }
+    // Never follow a cursor off the Graph endpoint, or the bearer token would go with it
+    if (typeof decoded?.url !== "string" || !this.url(decoded.url).startsWith(`${this.baseUrl}/`)) {
+      throw new ValidationError("Invalid cursor");
+    }
+    return { url: decoded.url, offset: Number(decoded.offset) || 0 };
+  }
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers ?? {}).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key ? headers![key] : undefined;
+}
+
+function encodeCursor(url: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ url, offset }), "utf-8").toString("base64url");
+}
@@ -0,0 +1,44 @@
+import { readFileSync } from "fs";
+import { FastMCPSession, Logger } from "fastmcp";
+
+// The one place that changes FastMCP's own behaviour. FastMCP creates its sessions itself, with no
+// option for extra server capabilities, and the SDK only takes capabilities before a transport is
+// connected; by the time FastMCP's "connect" event fires it is too late. So session connect is
+// wrapped, but only on FastMCP releases this was checked against.
+const CHECKED_FASTMCP = /^3\.\d+\.\d+$/;
+
+// Version of the installed fastmcp package (its package.json isn't exported, so read it from disk)
+export function fastmcpVersion(): string | undefined {
+  try {
+    return JSON.parse(readFileSync(new URL("../package.json", import.meta.resolve("fastmcp")), "utf-8")).version;
+  } catch {
+    return undefined;
+  }
+}
+
+let hooked = false;
+
+// Runs setup on every FastMCP session just before it connects, while capabilities can still be
+// registered. setup may return a function that undoes it if connecting fails. Returns false,
+// after logging why, when FastMCP is a release this wasn't checked against; nothing is changed then.
+export function beforeSessionConnect(
+  setup: (session: FastMCPSession<any>) => (() => void) | void,
+  logger: Logger = console,
+  version = fastmcpVersion()
+): boolean {
+  const connect = FastMCPSession.prototype.connect;
+  if (!version || !CHECKED_FASTMCP.test(version) || typeof connect !== "function") {
+    logger.warn(`[microsoft-planner-mcp] FastMCP ${version ?? "(unknown version)"} is not a release the session hook was checked against; resource subscriptions won't be advertised`);
+    return false;
+  }
+  if (hooked) throw new Error("beforeSessionConnect can only be called once");
+  hooked = true;
+  FastMCPSession.prototype.connect = function (this: FastMCPSession<any>, transport) {
+    const undo = setup(this);
+    return connect.call(this, transport).catch((error: unknown) => {
+      undo?.();
+      throw error;
+    });
+  };
+  return true;
+}
@@ -0,0 +1,149 @@
+// Conversions between the HTML in group conversation posts and Markdown. Both directions are
+// deliberately small: posts use a handful of tags, and Markdown sent by an agent is escaped first
+// so it can never inject markup of its own.
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Where email clients start the quoted message in a reply
+const QUOTE_MARKERS = [
+  /<div[^>]*id="?(divRplyFwdMsg|appendonsend)"?[^>]*>/i,
+  /<div[^>]*class="?gmail_quote[^>]*>/i,
+  /<blockquote[^>]*type="?cite"?[^>]*>/i,
+  /<hr[^>]*tabindex="?-1"?[^>]*>/i,
+];
+
+const QUOTE_LINES = [/^On .+ wrote:$/, /^-{2,}\s*Original Message\s*-{2,}$/i, /^From: .+$/];
+
+// Drops the quoted earlier messages that replies from email carry below the new text
+export function stripQuotedReply(html: string): string {
+  let cut = html.length;
+  for (const marker of QUOTE_MARKERS) {
+    const index = html.search(marker);
+    if (index >= 0 && index < cut) cut = index;
+  }
+  return html.slice(0, cut);
+}
+
+function stripQuotedLines(markdown: string): string {
+  const lines = markdown.split("\n");
+  const index = lines.findIndex((line) => QUOTE_LINES.some((pattern) => pattern.test(line.trim())));
+  return index > 0 ? lines.slice(0, index).join("\n") : markdown;
+}
+
+// Renders post HTML as Markdown; quoted reply chains are removed unless keepQuoted is set
+export function htmlToMarkdown(html: string, keepQuoted = false): string {
+  // Preformatted blocks keep their line breaks, so they are set aside before whitespace is collapsed
+  const blocks: string[] = [];
+  let text = (keepQuoted ? html : stripQuotedReply(html))
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+      blocks.push(code.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""));
+      return `<p>\u0000${blocks.length - 1}\u0000</p>`;
+    });
+  text = text
+    .replace(/\r?\n/g, " ")
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => `\n\n${"#".repeat(Number(level))} ${inner}\n\n`)
+    .replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, "**$3**")
+    .replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, "*$3*")
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const inner = label.replace(/<[^>]+>/g, "").trim();
+      return !inner || inner === href ? href : `[${inner}](${href})`;
+    })
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(ul|ol)>/gi, "\n\n")
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, inner: string) => `\n\n> ${inner.trim()}\n\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|tr|table)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  const markdown = decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => `\`\`\`\n${decodeEntities(blocks[Number(i)]).trim()}\n\`\`\``)
+    .trim();
+  return keepQuoted ? markdown : stripQuotedLines(markdown).trim();
+}
+
+// Inline Markdown on already-escaped text: code, links (http, https and mailto only), bold, italic.
+// Code spans and links are set aside first so emphasis markers inside them are left alone.
+function inlineMarkdown(text: string): string {
+  const kept: string[] = [];
+  const keep = (html: string) => `\u0000${kept.push(html) - 1}\u0000`;
+  return text
+    .replace(/`([^`]+)`/g, (_, code: string) => keep(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g, (_, label: string, href: string) => keep(`<a href="${href}">${label}</a>`))
+    .replace(/(^|[\s(])(https?:\/\/[^\s<]+[^\s<.,;:!?)])/g, (_, lead: string, href: string) => lead + keep(`<a href="${href}">${href}</a>`))
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>")
+    .replace(/(^|[^_\w])_([^_\s][^_]*)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => kept[Number(i)]);
+}
+
+// Converts Markdown to HTML for posting. All input is HTML-escaped before any markup is added, so
+// raw tags in the text show up as text rather than being rendered.
+export function markdownToHtml(markdown: string): string {
+  const blocks: string[] = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith("```"); i++) code.push(lines[i]);
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      i++;
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push(`<h${heading[1].length}>${inlineMarkdown(escapeHtml(heading[2]))}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+    const listMatch = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*+]|\d+[.)])\s+/.test(lines[i])) {
+        items.push(`<li>${inlineMarkdown(escapeHtml(lines[i].replace(/^\s*([-*+]|\d+[.)])\s+/, "")))}</li>`);
+        i++;
+      }
+      blocks.push(ordered ? `<ol>${items.join("")}</ol>` : `<ul>${items.join("")}</ul>`);
+      continue;
+    }
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) quoted.push(lines[i].replace(/^>\s?/, ""));
+      blocks.push(`<blockquote>${inlineMarkdown(escapeHtml(quoted.join("\n"))).replace(/\n/g, "<br>")}</blockquote>`);
+      continue;
+    }
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !/^(#{1,6}\s|```|>|\s*([-*+]|\d+[.)])\s)/.test(lines[i]); i++) {
+      paragraph.push(lines[i]);
+    }
+    blocks.push(`<p>${inlineMarkdown(escapeHtml(paragraph.join("\n"))).replace(/\n/g, "<br>")}</p>`);
+  }
+  return blocks.join("");
+}
@@ -1,201 +1,674 @@
-import { FastMCP } from "fastmcp";
+import { FastMCP, Logger, Tool, ToolParameters } from "fastmcp";
 import { z } from "zod";
-import { execSync } from "child_process";
 import { randomUUID } from "crypto";
-import { writeFileSync, unlinkSync, readFileSync } from "fs";
-import { tmpdir } from "os";
-import { join, basename } from "path";
+import { readFileSync, writeFileSync } from "fs";
+import { userInfo } from "os";
+import { basename } from "path";
+import { GraphClient, Page, PageOptions, credentialFromEnv } from "./graph.js";
+import {
+  PlannerSession,
+  SessionCredential,
+  authenticateSession,
+  cached,
+  clearCache,
+  currentSession,
+  invalidate,
+  refreshSessionToken,
+  runInSession,
+  trackRequestTokens,
+} from "./session.js";
+import { batchError, batchPatchWithConcurrency, patchWithConcurrency } from "./concurrency.js";
+import { NotFoundError, PlannerError, ValidationError } from "./errors.js";
+import {
+  PREVIEW_TYPES,
+  assignmentEntry,
+  buildTaskFields,
+  createTaskWithDetails,
+  normalizeDateTime,
+  referenceEntry,
+  resolveBucket,
+} from "./tasks.js";
+import { PlanState, applySyncPlan, computeSyncPlan, describeAction, parseManifest } from "./sync.js";
+import { GroupMember, matchMember, resolveMembers } from "./members.js";
+import {
+  decodeReferenceKey,
+  encodeUrlForReference,
+  listReferences,
+  referenceAlias,
+  requireReferenceKey,
+} from "./references.js";
+import { addTaskComment, filterComments, listTaskComments, pageComments, resolveMentions } from "./comments.js";
+import { htmlToMarkdown, markdownToHtml } from "./html.js";
+import {
+  CHECKLIST_IMPORT_MODES,
+  CHECKLIST_LIMIT,
+  checklistToMarkdown,
+  findChecklistItem,
+  orderedChecklist,
+  orderedChecklistEntries,
+  parseMarkdownChecklist,
+  planChecklistImport,
+  reorderChecklist,
+} from "./checklist.js";
+import { csvRecords, splitCell } from "./csv.js";
+import { localPath } from "./files.js";
+import { hintBetween, hintsBetween } from "./orderhints.js";
+import { PLANS_URI, ResourceSubscriptions, bucketsUri, planUri, taskUri } from "./resources.js";
+import {
+  assignmentsSince,
+  baselineFor,
+  diffPlan,
+  emptyChanges,
+  markdownChanges,
+  readSnapshots,
+  recordSnapshot,
+  snapshotDirFromEnv,
+  takeSnapshot,
+} from "./changes.js";
+import {
+  CONFLICT_BEHAVIORS,
+  DEFAULT_ATTACHMENT_FOLDER,
+  LINK_SCOPES,
+  LINK_TYPES,
+  SIMPLE_UPLOAD_LIMIT,
+  getDriveItem,
+  itemLink,
+  referenceTypeFor,
+  uploadFile,
+} from "./drive.js";
+import { BOARD_VIEWS, boardColumns, columnKeys, formatPath, hintOf, hintPatch, loadBoardFormats } from "./boards.js";
+import { ARCHIVE_ENCODINGS, exportPlan, importPlan, parseArchive, serializeArchive } from "./archive.js";
+import {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  byOrderHint,
+  compactBucket,
+  compactComment,
+  compactPlan,
+  compactPlanDetails,
+  compactReference,
+  compactTask,
+  compactTaskDetails,
+  markdownBoard,
+  markdownComments,
+  markdownPlanDetails,
+  markdownReferences,
+  markdownTable,
+  markdownTask,
+  markdownTaskDetails,
+  markdownTaskTable,
+  serialize,
+} from "./format.js";
+import { CATEGORY_KEYS, categoryLabels, isCategoryKey, resolveCategories } from "./categories.js";
+import {
+  DEFAULT_TASK_FIELDS,
+  PRIORITY_NAMES,
+  PlanContext,
+  SORT_FIELDS,
+  TASK_FIELDS,
+  TASK_STATUSES,
+  matchesFilter,
+  taskStatus,
+  projectTask,
+  sortTasks,
+} from "./query.js";
+
+// Resource subscriptions, notified when the server's own Graph writes touch a subscribed resource
+const subscriptions = new ResourceSubscriptions((collection, id) => graph.get(`/planner/${collection}/${id}`).then((item) => item.planId));
+
+// Shared Graph client (GRAPH_BASE_URL can point at a mock Graph server for testing). Over HTTP it
+// sends the calling session's token; over stdio, the credential from the environment.
+const graph = new GraphClient({
+  credential: new SessionCredential(credentialFromEnv()),
+  baseUrl: process.env.GRAPH_BASE_URL,
+  onChange: (method, path, body) => subscriptions.graphChanged(method, path, body),
+  onRead: (path, response) => subscriptions.graphRead(path, response),
+});
+
+// Server log, shared by FastMCP and the session code
+const logger: Logger = console;
 
-const mcp = new FastMCP({
+// Transport comes from FastMCP's own --transport/--port/--host flags (or FASTMCP_* variables):
+// stdio by default, or `--transport http-stream` for a shared server with per-user tokens
+const mcp = new FastMCP<PlannerSession | undefined>({
   name: "microsoft-planner-mcp",
   version: "1.0.0",
+  authenticate: (request) => authenticateSession(graph, request),
+  health: { enabled: true, path: "/health", message: "ok" },
+  logger,
 });
 
-// Helper to execute az rest commands
-function azRest(method: string, url: string, body?: object): string {
-  const args = [`az rest --method ${method} --url "${url}"`];
-  if (body) {
-    const bodyJson = JSON.stringify(body).replace(/"/g, '\\"');
-    args.push(`--headers "Content-Type=application/json" --body "${bodyJson}"`);
-  }
-  try {
-    const result = execSync(args.join(" "), { encoding: "utf-8", maxBuffer: 10 * 1024 * 1024 });
-    return result;
-  } catch (error: any) {
-    throw new Error(`az rest failed: ${error.message}`);
-  }
+subscriptions.install(mcp, logger);
+mcp.on("connect", ({ session }) => trackRequestTokens(session, logger));
+
+// Helper to run a tool or resource read inside its MCP session, so Graph calls use the caller's
+// token (renewed from the request when the client sends a new one) and cache
+function asSession<T>(session: PlannerSession | undefined, fn: () => Promise<T>): Promise<T> {
+  return runInSession(session, async () => {
+    await refreshSessionToken(graph, session);
+    return fn();
+  });
 }
 
-// Helper to get ETag for update/delete operations (supports multiple resource types)
-type ResourceType = "task" | "taskDetails" | "bucket";
+// Helper to register a tool that runs inside its MCP session; every tool goes through this
+function addTool<Params extends ToolParameters>(tool: Tool<PlannerSession | undefined, Params>): void {
+  mcp.addTool({ ...tool, execute: (args, context) => asSession(context.session, () => tool.execute(args, context)) });
+}
 
-function getETag(resourceType: ResourceType, resourceId: string): string {
-  const urlMap: Record<ResourceType, string> = {
-    task: `https://graph.microsoft.com/v1.0/planner/tasks/${resourceId}`,
-    taskDetails: `https://graph.microsoft.com/v1.0/planner/tasks/${resourceId}/details`,
-    bucket: `https://graph.microsoft.com/v1.0/planner/buckets/${resourceId}`,
+// Helper to get ETag for update/delete operations (supports multiple resource types)
+type ResourceType = "task" | "taskDetails" | "bucket" | "plan";
+
+async function getETag(resourceType: ResourceType, resourceId: string): Promise<string> {
+  const pathMap: Record<ResourceType, string> = {
+    task: `/planner/tasks/${resourceId}`,
+    taskDetails: `/planner/tasks/${resourceId}/details`,
+    bucket: `/planner/buckets/${resourceId}`,
+    plan: `/planner/plans/${resourceId}`,
   };
-  const result = JSON.parse(azRest("GET", urlMap[resourceType]));
+  const result = await graph.get(pathMap[resourceType]);
   return result["@odata.etag"];
 }
 
+// Read-mostly lookups below go through the session cache (see session.ts). Tools that change
+// buckets or plan details invalidate the matching keys; reads that need a fresh ETag bypass it.
+
 // Helper to get groupId from a plan (required for comments and group member listing)
-function getGroupIdFromPlan(planId: string): string {
-  const url = `https://graph.microsoft.com/v1.0/planner/plans/${planId}`;
-  const result = JSON.parse(azRest("GET", url));
-  return result.container.containerId;
+async function getGroupIdFromPlan(planId: string): Promise<string> {
+  return cached(`planGroup:${planId}`, async () => {
+    const result = await graph.get(`/planner/plans/${planId}`);
+    return result.container.containerId as string;
+  });
+}
+
+// Helper to list the members of the group that owns a plan (the people tasks can be assigned to)
+async function getGroupMembers(planId: string): Promise<GroupMember[]> {
+  const groupId = await getGroupIdFromPlan(planId);
+  return cached(`groupMembers:${groupId}`, async () => {
+    const members = await graph.listAll(`/groups/${groupId}/members`);
+    return members.map((m: any) => ({
+      id: m.id,
+      displayName: m.displayName,
+      userPrincipalName: m.userPrincipalName,
+      mail: m.mail,
+    }));
+  });
+}
+
+// Helper to list a plan's buckets (raw Graph objects)
+async function getPlanBuckets(planId: string): Promise<any[]> {
+  return cached(`buckets:${planId}`, () => graph.listAll(`/planner/plans/${planId}/buckets`));
+}
+
+// Helper to read a plan's details (category labels and sharing)
+async function getPlanDetails(planId: string): Promise<any> {
+  return cached(`planDetails:${planId}`, () => graph.get(`/planner/plans/${planId}/details`));
+}
+
+// Helper to turn category keys or label names into category keys, reading the plan's labels only when needed
+async function resolveCategoryRefs(planId: string, refs: string[]): Promise<string[]> {
+  if (refs.every(isCategoryKey)) return refs;
+  const details = await getPlanDetails(planId);
+  return resolveCategories(details.categoryDescriptions ?? {}, refs);
+}
+
+// Helper to load a plan's bucket names, category labels and group members; each lookup can be
+// skipped when the caller doesn't need it
+async function loadPlanContext(
+  planId: string,
+  needs: { buckets?: boolean; categories?: boolean; members?: boolean } = { buckets: true, categories: true, members: true }
+): Promise<PlanContext> {
+  const [buckets, details, members] = await Promise.all([
+    needs.buckets ? getPlanBuckets(planId) : [],
+    needs.categories ? getPlanDetails(planId) : undefined,
+    needs.members ? getGroupMembers(planId) : [],
+  ]);
+  return {
+    buckets: new Map(buckets.map((b: any) => [b.id, b.name])),
+    categoryLabels: categoryLabels(details?.categoryDescriptions ?? {}),
+    members: new Map(members.map((m) => [m.id, m])),
+  };
 }
 
-// Helper to encode URL for reference keys (Graph API requires specific encoding)
-// Per Microsoft docs: encode colons and dots, but NOT forward slashes
-// Example: https://github.com → https%3A//github%2Ecom
-function encodeUrlForReference(url: string): string {
-  return url
-    .replace(/:/g, "%3A")     // Encode colons
-    .replace(/\./g, "%2E")    // Encode dots
-    .replace(/ /g, "%20")     // Encode spaces
-    .replace(/#/g, "%23")     // Encode hash
-    .replace(/\?/g, "%3F")    // Encode question mark
-    .replace(/&/g, "%26")     // Encode ampersand
-    .replace(/=/g, "%3D");    // Encode equals
+// Optional paging parameters shared by the list tools (without them, every page is fetched)
+const pagingParams = {
+  limit: z.number().int().positive().optional().describe("Maximum number of items to return (omit to fetch all pages)"),
+  cursor: z.string().optional().describe("nextCursor value from a previous response, to continue where it left off"),
+};
+
+// Output format parameter shared by the read tools
+const formatParam = {
+  format: z.enum(OUTPUT_FORMATS).optional().default("json")
+    .describe("json: raw Graph data; compact: small JSON with names instead of IDs; markdown: human-readable"),
+};
+
+// Renderers for a list tool's compact and markdown output
+interface ListRenderer {
+  compact: (items: any[]) => unknown[] | Promise<unknown[]>;
+  markdown: (items: any[]) => string | Promise<string>;
 }
 
-// Helper for PATCH requests with complex JSON bodies (uses temp file to avoid shell escaping issues)
-function azRestPatchWithEtag(url: string, etag: string, body: object): string {
-  const tmpFile = join(tmpdir(), `mcp-planner-${randomUUID()}.json`);
-  try {
-    writeFileSync(tmpFile, JSON.stringify(body));
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body @${tmpFile}`,
-    ];
-    const result = execSync(args.join(" "), { encoding: "utf-8" });
-    return result;
-  } finally {
-    try { unlinkSync(tmpFile); } catch {}
+// Helper to list a Graph collection for a tool response: a plain array when fetching everything,
+// or { items, nextCursor } when the caller is paging deliberately
+async function listForTool(
+  path: string,
+  paging: PageOptions,
+  // `all` supplies the complete list when no paging is asked for (e.g. from the cache)
+  options: { format?: OutputFormat; render?: ListRenderer; map?: (item: any) => any; all?: () => Promise<any[]> } = {}
+): Promise<string> {
+  const { format = "json", render, map = (item: any) => item, all } = options;
+  const paged = Boolean(paging.limit || paging.cursor);
+  const page: Page<any> = !paged && all ? { items: await all() } : await graph.listPage(path, paging);
+  const items = page.items.map(map);
+  if (format === "markdown" && render) {
+    const markdown = await render.markdown(items);
+    return paged ? `${markdown}\n\nnextCursor: ${page.nextCursor ?? "(none)"}` : markdown;
   }
+  const rendered = format === "compact" && render ? await render.compact(items) : items;
+  return serialize(paged ? { items: rendered, nextCursor: page.nextCursor ?? null } : rendered, format);
 }
 
+// Helper to load the plan context for every plan a set of tasks belongs to
+async function contextsForTasks(tasks: any[]): Promise<(task: any) => PlanContext> {
+  const planIds = [...new Set(tasks.map((task) => task.planId as string))];
+  const contexts = new Map(await Promise.all(planIds.map(async (id) => [id, await loadPlanContext(id)] as const)));
+  return (task) => contexts.get(task.planId)!;
+}
+
+// Renders task collections with bucket, assignee and category names resolved
+const taskListRenderer: ListRenderer = {
+  compact: async (tasks) => {
+    const contextFor = await contextsForTasks(tasks);
+    return tasks.map((task) => compactTask(task, contextFor(task)));
+  },
+  markdown: async (tasks) => markdownTaskTable(tasks, await contextsForTasks(tasks)),
+};
+
+// Helper to move tasks to another bucket through $batch, returning a per-task report
+async function moveTasksToBucket(tasks: any[], bucketId: string): Promise<Record<string, unknown>[]> {
+  const outcomes = await batchPatchWithConcurrency(graph, tasks.map((task) => ({
+    path: `/planner/tasks/${task.id}`,
+    base: task,
+    changes: { bucketId },
+  })));
+  return outcomes.map((outcome, i) => outcome.ok
+    ? { taskId: tasks[i].id, title: tasks[i].title, success: true }
+    : { taskId: tasks[i].id, title: tasks[i].title, success: false, error: outcome.error.toJSON() });
+}
+
+// Writable plannerTask fields shared by create-task and update-task
+const taskFieldParams = {
+  percentComplete: z.number().min(0).max(100).optional().describe("Progress 0-100"),
+  priority: z.number().int().min(0).max(10).optional().describe("Priority 0-10 (Planner shows 1 as urgent, 3 important, 5 medium, 9 low)"),
+  startDateTime: z.string().optional().describe("Start date (ISO 8601 format, e.g., '2024-12-01' or '2024-12-01T09:00:00Z'). Use 'clear' to remove start date."),
+  dueDateTime: z.string().optional().describe("Due date (ISO 8601 format, e.g., '2024-12-31' or '2024-12-31T17:00:00Z'). Use 'clear' to remove due date."),
+  orderHint: z.string().optional().describe("Order hint for the task's position in list views"),
+  assigneePriority: z.string().optional().describe("Order hint for the task's position in the assignee's task list"),
+  previewType: z.enum(PREVIEW_TYPES).optional().describe("What the task card previews: automatic, noPreview, checklist, description or reference"),
+  assignUserIds: z.array(z.string()).optional().describe("User IDs to assign (adds to existing assignees)"),
+  categories: z.array(z.string()).optional().describe("Categories to apply (category1-category25 or the plan's label names, e.g. 'Bug')"),
+};
+
 // Tool: List tasks for a plan
-mcp.addTool({
+addTool({
   name: "list-tasks",
   description: "List all tasks in a Planner plan",
   parameters: z.object({
     planId: z.string().describe("The Planner plan ID"),
+    ...pagingParams,
+    ...formatParam,
   }),
-  execute: async ({ planId }) => {
-    const url = `https://graph.microsoft.com/v1.0/planner/plans/${planId}/tasks`;
-    const result = JSON.parse(azRest("GET", url));
-    return JSON.stringify(result.value, null, 2);
+  execute: async ({ planId, limit, cursor, format }) => {
+    return listForTool(`/planner/plans/${planId}/tasks`, { limit, cursor }, { format, render: taskListRenderer });
+  },
+});
+
+// Tool: Query tasks across plans with filters, sorting and field projection
+addTool({
+  name: "query-tasks",
+  description: "Find tasks in one or more plans by bucket, assignee, category label, status, due date, priority or title, with sorting and a field projection to keep results small",
+  parameters: z.object({
+    planIds: z.array(z.string()).min(1).describe("Plan IDs to search"),
+    buckets: z.array(z.string()).optional().describe("Only tasks in these buckets (names or IDs)"),
+    assignees: z.array(z.string()).optional().describe("Only tasks assigned to any of these users (ID, UPN/email, display name, or 'me')"),
+    unassigned: z.boolean().optional().describe("Only tasks with no assignees"),
+    categories: z.array(z.string()).optional().describe("Only tasks with any of these categories (label names or category1-category25)"),
+    status: z.enum(TASK_STATUSES).optional().describe("notStarted, inProgress, completed, or open (anything not completed)"),
+    dueBefore: z.string().optional().describe("Only tasks due before this date (ISO 8601)"),
+    dueAfter: z.string().optional().describe("Only tasks due after this date (ISO 8601)"),
+    overdue: z.boolean().optional().describe("Only incomplete tasks whose due date has passed"),
+    priority: z.enum(PRIORITY_NAMES).optional().describe("Only tasks with this priority"),
+    titleContains: z.string().optional().describe("Only tasks whose title contains this text (case-insensitive)"),
+    sortBy: z.enum(SORT_FIELDS).optional().describe("Field to sort by"),
+    sortOrder: z.enum(["asc", "desc"]).optional().default("asc").describe("Sort direction"),
+    fields: z.array(z.enum(TASK_FIELDS)).optional().describe(`Fields to return per task (default: ${DEFAULT_TASK_FIELDS.join(", ")})`),
+    limit: z.number().int().positive().optional().describe("Maximum number of tasks to return"),
+    format: z.enum(OUTPUT_FORMATS).optional().default("json").describe("json or compact: projected fields as JSON; markdown: a table"),
+  }),
+  execute: async ({ planIds, assignees, sortBy, sortOrder, fields, limit, format, ...filter }) => {
+    const projection = fields ?? DEFAULT_TASK_FIELDS;
+    const needs = {
+      buckets: Boolean(filter.buckets?.length) || projection.includes("bucket") || sortBy === "bucket",
+      categories: Boolean(filter.categories?.length) || projection.includes("categories"),
+      members: Boolean(assignees?.length) || projection.includes("assignees"),
+    };
+    const me = assignees?.some((a) => a.toLowerCase() === "me") ? await graph.get("/me") : undefined;
+
+    const contexts = new Map<string, PlanContext>();
+    const tasks: any[] = [];
+    const unresolvedAssignees = new Set(assignees?.filter((a) => a.toLowerCase() !== "me"));
+    for (const planId of planIds) {
+      const [planTasks, ctx] = await Promise.all([
+        graph.listAll(`/planner/plans/${planId}/tasks`),
+        loadPlanContext(planId, needs),
+      ]);
+      contexts.set(planId, ctx);
+
+      // Resolve assignees against this plan's group; a person may only belong to some of the groups
+      const assigneeIds: string[] = me ? [me.id] : [];
+      for (const ref of assignees ?? []) {
+        if (ref.toLowerCase() === "me") continue;
+        const match = matchMember([...ctx.members.values()], ref);
+        if (match.status === "ambiguous") {
+          throw new ValidationError(`"${ref}" matches more than one member`, { ambiguous: [{ ref, candidates: match.candidates }] });
+        }
+        if (match.status === "resolved") {
+          assigneeIds.push(match.member.id);
+          unresolvedAssignees.delete(ref);
+        }
+      }
+
+      tasks.push(...planTasks.filter((task: any) => matchesFilter(task, { ...filter, assigneeIds: assignees?.length ? assigneeIds : undefined }, ctx)));
+    }
+    if (unresolvedAssignees.size > 0) {
+      throw new ValidationError("Could not resolve every assignee to a group member", { unresolved: [...unresolvedAssignees] });
+    }
+
+    if (sortBy) sortTasks(tasks, sortBy, sortOrder === "desc", (task) => contexts.get(task.planId)!);
+    const selected = limit ? tasks.slice(0, limit) : tasks;
+    const rows = selected.map((task) => projectTask(task, projection, contexts.get(task.planId)!));
+    if (format === "markdown") {
+      return `${markdownTable(rows)}\n\nShowing ${selected.length} of ${tasks.length} matching tasks`;
+    }
+    return serialize({ total: tasks.length, returned: selected.length, tasks: rows }, format);
   },
 });
 
 // Tool: Get single task
-mcp.addTool({
+addTool({
   name: "get-task",
   description: "Get details of a specific Planner task",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
+    ...formatParam,
   }),
-  execute: async ({ taskId }) => {
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    const result = azRest("GET", url);
-    return result;
+  execute: async ({ taskId, format }) => {
+    const result = await graph.get(`/planner/tasks/${taskId}`);
+    if (format === "json") return JSON.stringify(result, null, 2);
+    const ctx = await loadPlanContext(result.planId);
+    return format === "markdown" ? markdownTask(result, ctx) : serialize(compactTask(result, ctx), format);
   },
 });
 
 // Tool: Get task details (description, checklist, references)
-mcp.addTool({
+addTool({
   name: "get-task-details",
   description: "Get extended task details including description and checklist",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
+    ...formatParam,
   }),
-  execute: async ({ taskId }) => {
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    const result = azRest("GET", url);
-    return result;
+  execute: async ({ taskId, format }) => {
+    const result = await graph.get(`/planner/tasks/${taskId}/details`);
+    if (format === "markdown") return markdownTaskDetails(result);
+    return format === "compact" ? serialize(compactTaskDetails(result), format) : JSON.stringify(result, null, 2);
   },
 });
 
 // Tool: Create task
-mcp.addTool({
+addTool({
   name: "create-task",
   description: "Create a new task in a Planner plan",
   parameters: z.object({
     planId: z.string().describe("The plan ID"),
     bucketId: z.string().describe("The bucket ID"),
     title: z.string().describe("Task title"),
+    ...taskFieldParams,
+    description: z.string().optional().describe("Task description (supports markdown, include GitHub URLs)"),
+    checklist: z.array(z.string()).optional().describe("Checklist item titles, in order"),
+    references: z.array(z.object({
+      url: z.string().describe("The URL to attach"),
+      alias: z.string().optional().describe("Display name for the reference"),
+      type: z.string().optional().describe("Reference type (e.g., 'Other', 'PowerPoint', 'Excel', 'Word', 'Pdf')"),
+    })).optional().describe("URL references to attach"),
+  }),
+  execute: async ({ planId, bucketId, title, assignUserIds, categories, description, checklist, references, ...fields }) => {
+    // Check before creating anything, so an oversized checklist doesn't leave a task behind
+    if (checklist && checklist.length > CHECKLIST_LIMIT) {
+      throw new ValidationError(`Checklist has ${checklist.length} items; Planner allows ${CHECKLIST_LIMIT}`);
+    }
+    const body = {
+      planId,
+      bucketId,
+      ...buildTaskFields({
+        title,
+        ...fields,
+        assigneeIds: assignUserIds,
+        categories: categories && (await resolveCategoryRefs(planId, categories)),
+      }),
+    };
+    // Description, checklist and references live on the separate task details resource
+    const details: Record<string, any> = {};
+    if (description !== undefined) details.description = description;
+    if (checklist?.length) details.checklist = orderedChecklistEntries(checklist.map((item) => ({ title: item, isChecked: false })));
+    if (references?.length) {
+      details.references = {};
+      for (const ref of references) {
+        details.references[encodeUrlForReference(ref.url)] = referenceEntry(referenceAlias(ref.url, ref.alias), ref.type);
+      }
+    }
+    const task = await createTaskWithDetails(graph, body, details);
+    return JSON.stringify(task, null, 2);
+  },
+});
+
+// Tool: Bulk-create tasks from CSV
+addTool({
+  name: "import-tasks-csv",
+  description: `Create tasks from CSV with a header row. Columns: title (required), bucket, assignee, due date, labels, checklist. Multiple assignees, labels and checklist items are separated by ";" (prefix a checklist item with [x] to check it). Every row is validated first; nothing is created if any row is invalid.`,
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    csv: z.string().optional().describe("CSV text"),
+    csvPath: z.string().optional().describe("Local path to a CSV file (instead of csv)"),
+    createBuckets: z.boolean().optional().default(false).describe("Create buckets named in the CSV that don't exist yet (otherwise they are errors)"),
   }),
-  execute: async ({ planId, bucketId, title }) => {
-    const url = "https://graph.microsoft.com/v1.0/planner/tasks";
-    const body = { planId, bucketId, title };
-    const result = azRest("POST", url, body);
-    return result;
+  execute: async ({ planId, csv, csvPath, createBuckets }) => {
+    if (!csv === !csvPath) {
+      throw new ValidationError("Provide exactly one of csv or csvPath");
+    }
+    let text = csv;
+    if (csvPath) {
+      const path = localPath(csvPath, "csvPath");
+      try {
+        text = readFileSync(path, "utf-8");
+      } catch (error: any) {
+        throw new ValidationError(`Cannot read CSV: ${error.message}`, { csvPath });
+      }
+    }
+    const records = csvRecords(text!);
+    if (records.length === 0) throw new ValidationError("CSV has no data rows");
+    if (!("title" in records[0].values)) {
+      throw new ValidationError("CSV needs a title column", { columns: Object.keys(records[0].values) });
+    }
+
+    // Validate every row before creating anything
+    const ctx = await loadPlanContext(planId);
+    const members = [...ctx.members.values()];
+    const newBuckets = new Map<string, string>();
+    const rows: { row: number; title: string; bucket: string; body: Record<string, any>; checklist: { title: string; isChecked: boolean }[] }[] = [];
+    const invalid: { row: number; error: unknown }[] = [];
+    for (const { row, values } of records) {
+      try {
+        if (!values.title) throw new ValidationError("Title is empty");
+        if (!values.bucket) throw new ValidationError("Bucket is empty");
+        let bucketId: string | undefined;
+        try {
+          bucketId = resolveBucket(ctx.buckets, values.bucket);
+        } catch (error) {
+          if (!createBuckets) throw error;
+          newBuckets.set(values.bucket.trim().toLowerCase(), values.bucket.trim());
+        }
+        const due = values.duedate || values.due;
+        if (due && Number.isNaN(Date.parse(due))) throw new ValidationError(`Due date "${due}" is not a date`);
+        const checklist = splitCell(values.checklist).map((item) => {
+          const checked = item.match(/^\[([ xX])\]\s*(.*)$/);
+          return checked ? { title: checked[2], isChecked: checked[1] !== " " } : { title: item, isChecked: false };
+        });
+        if (checklist.length > CHECKLIST_LIMIT) {
+          throw new ValidationError(`Checklist has ${checklist.length} items; Planner allows ${CHECKLIST_LIMIT}`);
+        }
+        const body = {
+          planId,
+          bucketId,
+          ...buildTaskFields({
+            title: values.title,
+            dueDateTime: due || undefined,
+            assigneeIds: resolveMembers(members, splitCell(values.assignee || values.assignees)).map((m) => m.id),
+            categories: resolveCategories(ctx.categoryLabels, splitCell(values.labels || values.label)),
+          }),
+        };
+        rows.push({ row, title: values.title, bucket: values.bucket.trim(), body, checklist });
+      } catch (error) {
+        if (!(error instanceof PlannerError)) throw error;
+        invalid.push({ row, error: error.toJSON() });
+      }
+    }
+    if (invalid.length > 0) {
+      throw new ValidationError(`${invalid.length} of ${records.length} CSV rows are invalid; nothing was created`, { rows: invalid });
+    }
+
+    // Chain order hints so new buckets appear in the order the CSV first mentions them
+    const bucketIds = new Map<string, string>();
+    let orderHint = " !";
+    for (const [key, name] of newBuckets) {
+      const bucket = await graph.post("/planner/buckets", { planId, name, orderHint });
+      bucketIds.set(key, bucket.id);
+      orderHint = `${bucket.orderHint} !`;
+    }
+    if (newBuckets.size > 0) invalidate(`buckets:${planId}`);
+
+    const results: Record<string, unknown>[] = [];
+    for (const { row, title, bucket, body, checklist } of rows) {
+      try {
+        body.bucketId ??= bucketIds.get(bucket.toLowerCase());
+        const details = checklist.length ? { checklist: orderedChecklistEntries(checklist) } : {};
+        const task = await createTaskWithDetails(graph, body, details);
+        results.push({ row, title, success: true, taskId: task.id });
+      } catch (error) {
+        if (!(error instanceof PlannerError)) throw error;
+        results.push({ row, title, success: false, error: error.toJSON() });
+      }
+    }
+    const failed = results.filter((r) => !r.success).length;
+    return JSON.stringify({
+      summary: { total: rows.length, created: rows.length - failed, failed, bucketsCreated: [...newBuckets.values()] },
+      results,
+    }, null, 2);
   },
 });
 
-// Tool: Update task (title, percentComplete, assignments, categories)
-mcp.addTool({
+// Tool: Update task (title, progress, priority, dates, assignments, categories, ordering)
+addTool({
   name: "update-task",
-  description: "Update task properties (title, progress, assignments, categories, due date). Auto-fetches ETag.",
+  description: "Update task properties (title, progress, priority, start/due dates, assignments, categories, order hints, preview type). Auto-fetches ETag.",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
     title: z.string().optional().describe("New title"),
-    percentComplete: z.number().min(0).max(100).optional().describe("Progress 0-100"),
+    ...taskFieldParams,
     assignUserId: z.string().optional().describe("User ID to assign"),
-    category: z.string().optional().describe("Category to apply (category1-category25)"),
-    removeCategory: z.string().optional().describe("Category to remove (category1-category25)"),
-    dueDateTime: z.string().optional().describe("Due date (ISO 8601 format, e.g., '2024-12-31' or '2024-12-31T17:00:00Z'). Use 'clear' to remove due date."),
-  }),
-  execute: async ({ taskId, title, percentComplete, assignUserId, category, removeCategory, dueDateTime }) => {
-    const etag = getETag("task", taskId);
-    const body: Record<string, any> = {};
-    if (title !== undefined) body.title = title;
-    if (percentComplete !== undefined) body.percentComplete = percentComplete;
-    if (assignUserId) {
-      body.assignments = {
-        [assignUserId]: {
-          "@odata.type": "#microsoft.graph.plannerAssignment",
-          orderHint: " !",
-        },
-      };
-    }
-    if (category || removeCategory) {
-      body.appliedCategories = {};
-      if (category) body.appliedCategories[category] = true;
-      if (removeCategory) body.appliedCategories[removeCategory] = null;
+    category: z.string().optional().describe("Category to apply (category1-category25 or label name)"),
+    removeCategory: z.string().optional().describe("Category to remove (category1-category25 or label name)"),
+    removeCategories: z.array(z.string()).optional().describe("Categories to remove (category1-category25 or label names)"),
+  }),
+  execute: async ({ taskId, assignUserId, assignUserIds, category, categories, removeCategory, removeCategories, ...fields }) => {
+    let apply = [...(categories ?? []), ...(category ? [category] : [])];
+    let unapply = [...(removeCategories ?? []), ...(removeCategory ? [removeCategory] : [])];
+    // Label names need the plan's categoryDescriptions, so look up which plan the task is in
+    if (![...apply, ...unapply].every(isCategoryKey)) {
+      const task = await graph.get(`/planner/tasks/${taskId}`);
+      apply = await resolveCategoryRefs(task.planId, apply);
+      unapply = await resolveCategoryRefs(task.planId, unapply);
     }
-    if (dueDateTime) {
-      if (dueDateTime.toLowerCase() === "clear") {
-        body.dueDateTime = null;
-      } else {
-        // If just a date is provided (YYYY-MM-DD), append time for end of day UTC
-        body.dueDateTime = dueDateTime.includes("T") ? dueDateTime : `${dueDateTime}T23:59:59Z`;
-      }
+    const body = buildTaskFields({
+      ...fields,
+      assigneeIds: [...(assignUserIds ?? []), ...(assignUserId ? [assignUserId] : [])],
+      categories: apply,
+      removeCategories: unapply,
+    });
+    if (Object.keys(body).length === 0) {
+      throw new ValidationError("No task fields to update");
     }
 
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    // Escape the inner quotes in the ETag for shell: W/"..." -> W/\"...\"
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify(body)}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Task updated successfully";
-    } catch (error: any) {
-      throw new Error(`Update failed: ${error.message}`);
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}`, body);
+    return "Task updated successfully";
+  },
+});
+
+// Tool: Add, remove or replace task assignees
+addTool({
+  name: "update-assignees",
+  description: "Add, remove or replace a task's assignees in one ETag-guarded update. Users can be given by ID, UPN/email or display name (resolved against the plan's group members); ambiguous names are reported, not guessed.",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    add: z.array(z.string()).optional().describe("Users to assign"),
+    remove: z.array(z.string()).optional().describe("Users to unassign"),
+    replace: z.array(z.string()).optional().describe("Exact set of assignees to keep (everyone else is unassigned); use [] to unassign all. Cannot be combined with add/remove."),
+  }),
+  execute: async ({ taskId, add, remove, replace }) => {
+    if (replace && (add?.length || remove?.length)) {
+      throw new ValidationError("Use either replace or add/remove, not both");
+    }
+    if (!replace && !add?.length && !remove?.length) {
+      throw new ValidationError("Nothing to change: provide add, remove or replace");
     }
+
+    const task = await graph.get(`/planner/tasks/${taskId}`);
+    const members = await getGroupMembers(task.planId);
+    const toAdd = resolveMembers(members, replace ?? add ?? []);
+    const toRemove = resolveMembers(members, remove ?? []);
+
+    let added: string[] = [];
+    let removed: string[] = [];
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}`, (current) => {
+      added = [];
+      removed = [];
+      const currentIds = Object.keys(current.assignments ?? {});
+      const assignments: Record<string, any> = {};
+      for (const member of toAdd) {
+        if (!currentIds.includes(member.id) && !(member.id in assignments)) {
+          assignments[member.id] = assignmentEntry();
+          added.push(member.id);
+        }
+      }
+      const removeIds = replace
+        ? currentIds.filter((id) => !toAdd.some((m) => m.id === id))
+        : toRemove.map((m) => m.id).filter((id) => currentIds.includes(id));
+      for (const id of removeIds) {
+        assignments[id] = null;
+        removed.push(id);
+      }
+      return Object.keys(assignments).length > 0 ? { assignments } : {};
+    });
+
+    const describe = (id: string) => {
+      const member = members.find((m) => m.id === id);
+      return { id, displayName: member?.displayName, userPrincipalName: member?.userPrincipalName };
+    };
+    return JSON.stringify({ success: true, added: added.map(describe), removed: removed.map(describe) }, null, 2);
   },
 });
 
 // Tool: Update task details (description with GitHub links)
-mcp.addTool({
+addTool({
   name: "update-task-details",
   description: "Update task description (use for GitHub links). Auto-fetches ETag.",
   parameters: z.object({
@@ -203,26 +676,13 @@ mcp.addTool({
     description: z.string().describe("Task description (supports markdown, include GitHub URLs)"),
   }),
   execute: async ({ taskId, description }) => {
-    const etag = getETag("taskDetails", taskId);
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    // Escape the inner quotes in the ETag for shell: W/"..." -> W/\"...\"
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify({ description })}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Task details updated successfully";
-    } catch (error: any) {
-      throw new Error(`Update details failed: ${error.message}`);
-    }
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, { description });
+    return "Task details updated successfully";
   },
 });
 
 // Tool: Add checklist item
-mcp.addTool({
+addTool({
   name: "add-checklist-item",
   description: "Add a checklist item (subtask) to a Planner task",
   parameters: z.object({
@@ -231,7 +691,6 @@ mcp.addTool({
     isChecked: z.boolean().optional().default(false).describe("Whether the item is checked"),
   }),
   execute: async ({ taskId, title, isChecked }) => {
-    const etag = getETag("taskDetails", taskId);
     const itemId = randomUUID();
     const body = {
       checklist: {
@@ -243,24 +702,13 @@ mcp.addTool({
       },
     };
 
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify(body)}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || JSON.stringify({ success: true, itemId, title });
-    } catch (error: any) {
-      throw new Error(`Add checklist item failed: ${error.message}`);
-    }
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, body);
+    return JSON.stringify({ success: true, itemId, title });
   },
 });
 
 // Tool: Add multiple checklist items at once
-mcp.addTool({
+addTool({
   name: "add-checklist-items",
   description: "Add multiple checklist items (subtasks) to a Planner task in one operation",
   parameters: z.object({
@@ -268,37 +716,17 @@ mcp.addTool({
     items: z.array(z.string()).describe("Array of checklist item titles"),
   }),
   execute: async ({ taskId, items }) => {
-    const etag = getETag("taskDetails", taskId);
-    const checklist: Record<string, any> = {};
-
-    for (const title of items) {
-      const itemId = randomUUID();
-      checklist[itemId] = {
-        "@odata.type": "#microsoft.graph.plannerChecklistItem",
-        title,
-        isChecked: false,
-      };
-    }
-
-    const body = { checklist };
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify(body)}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || JSON.stringify({ success: true, itemCount: items.length });
-    } catch (error: any) {
-      throw new Error(`Add checklist items failed: ${error.message}`);
-    }
+    // Order hints after the current last item keep the items in the order given
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, (current) => {
+      const last = orderedChecklist(current.checklist).pop();
+      return { checklist: orderedChecklistEntries(items.map((title) => ({ title, isChecked: false })), last?.orderHint) };
+    });
+    return JSON.stringify({ success: true, itemCount: items.length });
   },
 });
 
 // Tool: Update checklist item (toggle or rename)
-mcp.addTool({
+addTool({
   name: "update-checklist-item",
   description: "Update a checklist item (toggle checked state or rename)",
   parameters: z.object({
@@ -308,7 +736,6 @@ mcp.addTool({
     isChecked: z.boolean().optional().describe("Set checked state"),
   }),
   execute: async ({ taskId, itemId, title, isChecked }) => {
-    const etag = getETag("taskDetails", taskId);
     const itemUpdate: Record<string, any> = {
       "@odata.type": "#microsoft.graph.plannerChecklistItem",
     };
@@ -321,24 +748,13 @@ mcp.addTool({
       },
     };
 
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify(body)}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Checklist item updated successfully";
-    } catch (error: any) {
-      throw new Error(`Update checklist item failed: ${error.message}`);
-    }
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, body);
+    return "Checklist item updated successfully";
   },
 });
 
 // Tool: Delete checklist item
-mcp.addTool({
+addTool({
   name: "delete-checklist-item",
   description: "Delete a checklist item from a Planner task",
   parameters: z.object({
@@ -346,276 +762,877 @@ mcp.addTool({
     itemId: z.string().describe("The checklist item ID to delete"),
   }),
   execute: async ({ taskId, itemId }) => {
-    const etag = getETag("taskDetails", taskId);
     const body = {
       checklist: {
         [itemId]: null,
       },
     };
 
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify(body)}'`,
-    ];
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, body);
+    return "Checklist item deleted successfully";
+  },
+});
+
+// Tool: Reorder checklist items
+addTool({
+  name: "reorder-checklist",
+  description: "Reorder a task's checklist. Give the items (IDs or titles) in the order you want; items not listed keep their current order after them.",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    order: z.array(z.string()).min(1).describe("Checklist item IDs or titles in the desired order"),
+  }),
+  execute: async ({ taskId, order }) => {
+    const path = `/planner/tasks/${taskId}/details`;
+    await patchWithConcurrency(graph, path, (current) => ({ checklist: reorderChecklist(current.checklist, order) }));
+    const details = await graph.get(path);
+    return JSON.stringify({ success: true, order: orderedChecklist(details.checklist).map(({ id, title }) => ({ id, title })) }, null, 2);
+  },
+});
+
+// Tool: Check or uncheck every checklist item
+addTool({
+  name: "check-all-checklist-items",
+  description: "Check (or uncheck) every checklist item on a task in one operation",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    isChecked: z.boolean().optional().default(true).describe("true checks all items, false unchecks all"),
+  }),
+  execute: async ({ taskId, isChecked }) => {
+    let changed = 0;
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, (current) => {
+      const checklist: Record<string, any> = {};
+      for (const item of orderedChecklist(current.checklist)) {
+        if (item.isChecked !== isChecked) {
+          checklist[item.id] = { "@odata.type": "#microsoft.graph.plannerChecklistItem", isChecked };
+        }
+      }
+      changed = Object.keys(checklist).length;
+      return changed > 0 ? { checklist } : {};
+    });
+    return JSON.stringify({ success: true, isChecked, changed });
+  },
+});
+
+// Tool: Promote a checklist item to its own task
+addTool({
+  name: "promote-checklist-item",
+  description: "Turn a checklist item into its own task in a chosen bucket (default: the parent task's bucket). The new task's description links back to the parent, and the original item is removed or checked off.",
+  parameters: z.object({
+    taskId: z.string().describe("The task that has the checklist item"),
+    item: z.string().describe("Checklist item ID or title"),
+    bucket: z.string().optional().describe("Bucket ID or name for the new task (default: the parent task's bucket)"),
+    title: z.string().optional().describe("Title for the new task (default: the item's title)"),
+    original: z.enum(["remove", "strike"]).optional().default("remove")
+      .describe("remove: delete the item; strike: keep it checked off (Planner shows checked items struck through)"),
+  }),
+  execute: async ({ taskId, item, bucket, title, original }) => {
+    const [parent, details] = await Promise.all([
+      graph.get(`/planner/tasks/${taskId}`),
+      graph.get(`/planner/tasks/${taskId}/details`),
+    ]);
+    const source = findChecklistItem(details.checklist, item);
+    const bucketId = bucket
+      ? resolveBucket((await loadPlanContext(parent.planId, { buckets: true })).buckets, bucket)
+      : parent.bucketId;
+
+    const task = await createTaskWithDetails(
+      graph,
+      { planId: parent.planId, bucketId, title: title ?? source.title },
+      { description: `Promoted from the checklist of "${parent.title}" (task ${parent.id})` }
+    );
+
+    // Update the parent's checklist; if that fails, undo the new task so nothing is duplicated
+    const change = original === "remove" ? null : { "@odata.type": "#microsoft.graph.plannerChecklistItem", isChecked: true };
     try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Checklist item deleted successfully";
-    } catch (error: any) {
-      throw new Error(`Delete checklist item failed: ${error.message}`);
+      await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, { checklist: { [source.id]: change } });
+    } catch (error) {
+      await graph.delete(`/planner/tasks/${task.id}`, task["@odata.etag"]).catch(() => undefined);
+      throw error;
+    }
+    return JSON.stringify({
+      success: true,
+      task: { id: task.id, title: task.title, bucketId: task.bucketId },
+      originalItem: { id: source.id, title: source.title, action: original === "remove" ? "removed" : "checked off" },
+    }, null, 2);
+  },
+});
+
+// Tool: Export a task's checklist as Markdown
+addTool({
+  name: "export-checklist",
+  description: "Export a task's checklist as a Markdown task list (- [ ] / - [x]) in display order",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+  }),
+  execute: async ({ taskId }) => {
+    const details = await graph.get(`/planner/tasks/${taskId}/details`);
+    const items = orderedChecklist(details.checklist);
+    const result: Record<string, unknown> = { taskId, itemCount: items.length, markdown: checklistToMarkdown(items) };
+    if (items.length >= CHECKLIST_LIMIT) {
+      result.warning = `The checklist is at Planner's ${CHECKLIST_LIMIT}-item limit; appending to it will skip every new item`;
+    }
+    return JSON.stringify(result, null, 2);
+  },
+});
+
+// Tool: Import a Markdown checklist into a task
+addTool({
+  name: "import-checklist",
+  description: `Import a Markdown task list (- [ ] todo / - [x] done) into a task's checklist, keeping its order and checked state. Planner allows ${CHECKLIST_LIMIT} items per task; items past the limit are skipped and reported.`,
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    markdown: z.string().describe("Markdown task list; plain bullets import as unchecked items"),
+    mode: z.enum(CHECKLIST_IMPORT_MODES).optional().default("append")
+      .describe("append: add after the existing items; replace: make the checklist exactly this list (items with the same title keep their ID)"),
+  }),
+  execute: async ({ taskId, markdown, mode }) => {
+    const items = parseMarkdownChecklist(markdown);
+    if (items.length === 0 && mode === "append") {
+      throw new ValidationError("No checklist items found", { hint: "Use one item per line, e.g. \"- [ ] Write tests\"" });
+    }
+    const path = `/planner/tasks/${taskId}/details`;
+    let outcome: ReturnType<typeof planChecklistImport> | undefined;
+    // Worked out from the details as read right before the PATCH
+    await patchWithConcurrency(graph, path, (current) => {
+      outcome = planChecklistImport(current.checklist, items, mode);
+      return { checklist: outcome.patch };
+    });
+    const { patch, ...counts } = outcome!;
+    const result: Record<string, unknown> = { success: true, ...counts };
+    if (counts.skipped.length > 0) {
+      result.warning = `${counts.skipped.length} item(s) skipped: Planner allows ${CHECKLIST_LIMIT} checklist items per task`;
     }
+    return JSON.stringify(result, null, 2);
   },
 });
 
 // Tool: Delete task
-mcp.addTool({
+addTool({
   name: "delete-task",
   description: "Delete a Planner task. Auto-fetches ETag.",
   parameters: z.object({
     taskId: z.string().describe("The task ID to delete"),
   }),
   execute: async ({ taskId }) => {
-    const etag = getETag("task", taskId);
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    // Escape the inner quotes in the ETag for shell: W/"..." -> W/\"...\"
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method DELETE --url "${url}"`,
-      `--headers "If-Match=${escapedEtag}"`,
-    ];
-    try {
-      execSync(args.join(" "), { encoding: "utf-8" });
-      return "Task deleted successfully";
-    } catch (error: any) {
-      throw new Error(`Delete failed: ${error.message}`);
-    }
+    const etag = await getETag("task", taskId);
+    await graph.delete(`/planner/tasks/${taskId}`, etag);
+    return "Task deleted successfully";
   },
 });
 
 // Tool: List buckets for a plan
-mcp.addTool({
+addTool({
   name: "list-buckets",
   description: "List all buckets in a Planner plan",
   parameters: z.object({
     planId: z.string().describe("The Planner plan ID"),
+    ...pagingParams,
+    ...formatParam,
   }),
-  execute: async ({ planId }) => {
-    const url = `https://graph.microsoft.com/v1.0/planner/plans/${planId}/buckets`;
-    const result = JSON.parse(azRest("GET", url));
-    return JSON.stringify(result.value, null, 2);
+  execute: async ({ planId, limit, cursor, format }) => {
+    return listForTool(`/planner/plans/${planId}/buckets`, { limit, cursor }, {
+      format,
+      all: () => getPlanBuckets(planId),
+      render: {
+        compact: (buckets) => buckets.map(compactBucket),
+        markdown: (buckets) => markdownTable(buckets.map((b) => ({ Name: b.name, ID: b.id }))),
+      },
+    });
   },
 });
 
 // Tool: List plans for current user
-mcp.addTool({
+addTool({
   name: "list-plans",
   description: "List all Planner plans accessible to the current user",
-  parameters: z.object({}),
-  execute: async () => {
-    const url = "https://graph.microsoft.com/v1.0/me/planner/plans";
-    const result = JSON.parse(azRest("GET", url));
-    return JSON.stringify(result.value, null, 2);
+  parameters: z.object({
+    ...pagingParams,
+    ...formatParam,
+  }),
+  execute: async ({ limit, cursor, format }) => {
+    return listForTool("/me/planner/plans", { limit, cursor }, {
+      format,
+      render: {
+        compact: (plans) => plans.map(compactPlan),
+        markdown: (plans) => markdownTable(plans.map((p) => ({ Title: p.title, ID: p.id, Group: p.container?.containerId }))),
+      },
+    });
   },
 });
 
 // Tool: Get plan details (includes category labels)
-mcp.addTool({
+addTool({
   name: "get-plan-details",
   description: "Get plan details including category label names (what category1-25 mean)",
   parameters: z.object({
     planId: z.string().describe("The Planner plan ID"),
+    ...formatParam,
+  }),
+  execute: async ({ planId, format }) => {
+    const result = await getPlanDetails(planId);
+    if (format === "json") return JSON.stringify(result, null, 2);
+    const ctx = await loadPlanContext(planId, { categories: true, members: true });
+    return format === "markdown" ? markdownPlanDetails(result, ctx) : serialize(compactPlanDetails(result, ctx), format);
+  },
+});
+
+// Bucket layout used when a new plan asks for the standard buckets
+const STANDARD_BUCKETS = ["Backlog", "To Do", "In Progress", "Blocked", "Done"];
+
+// Tool: Create plan
+addTool({
+  name: "create-plan",
+  description: "Create a new Planner plan in a Microsoft 365 group, optionally seeded with buckets",
+  parameters: z.object({
+    title: z.string().describe("Plan title"),
+    groupId: z.string().optional().describe("ID of the group that will own the plan"),
+    sameGroupAsPlanId: z.string().optional().describe("Create the plan in the same group as this existing plan (instead of groupId)"),
+    standardBuckets: z.boolean().optional().default(false).describe(`Seed the plan with the standard buckets: ${STANDARD_BUCKETS.join(", ")}`),
+    buckets: z.array(z.string()).optional().describe("Bucket names to create, in board order (overrides standardBuckets)"),
+  }),
+  execute: async ({ title, groupId, sameGroupAsPlanId, standardBuckets, buckets }) => {
+    if (!groupId === !sameGroupAsPlanId) {
+      throw new ValidationError("Provide exactly one of groupId or sameGroupAsPlanId");
+    }
+    const ownerGroupId = groupId ?? (await getGroupIdFromPlan(sameGroupAsPlanId!));
+    const plan = await graph.post("/planner/plans", {
+      title,
+      container: { url: graph.url(`/groups/${ownerGroupId}`) },
+    });
+
+    // Chain order hints ("<previous> !") so the buckets appear in the order given
+    const bucketNames = buckets ?? (standardBuckets ? STANDARD_BUCKETS : []);
+    const createdBuckets: any[] = [];
+    let orderHint = " !";
+    for (const name of bucketNames) {
+      const bucket = await graph.post("/planner/buckets", { planId: plan.id, name, orderHint });
+      createdBuckets.push({ id: bucket.id, name: bucket.name });
+      orderHint = `${bucket.orderHint} !`;
+    }
+
+    return JSON.stringify({ ...plan, buckets: createdBuckets }, null, 2);
+  },
+});
+
+// Tool: Rename plan
+addTool({
+  name: "update-plan",
+  description: "Rename a Planner plan. Auto-fetches ETag.",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    title: z.string().describe("The new plan title"),
+  }),
+  execute: async ({ planId, title }) => {
+    await patchWithConcurrency(graph, `/planner/plans/${planId}`, { title });
+    return "Plan updated successfully";
+  },
+});
+
+// Tool: Delete plan
+addTool({
+  name: "delete-plan",
+  description: "Delete a Planner plan with all its buckets and tasks. Auto-fetches ETag.",
+  parameters: z.object({
+    planId: z.string().describe("The plan ID to delete"),
   }),
   execute: async ({ planId }) => {
-    const url = `https://graph.microsoft.com/v1.0/planner/plans/${planId}/details`;
-    const result = azRest("GET", url);
-    return result;
+    const etag = await getETag("plan", planId);
+    await graph.delete(`/planner/plans/${planId}`, etag);
+    invalidate(`planGroup:${planId}`, `buckets:${planId}`, `planDetails:${planId}`);
+    return "Plan deleted successfully";
+  },
+});
+
+// Tool: Share plan with users
+addTool({
+  name: "update-plan-sharing",
+  description: "Add or remove users in a plan's sharedWith list. Users can be given by ID, UPN/email or display name (resolved against the plan's group members).",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    add: z.array(z.string()).optional().describe("Users to share the plan with"),
+    remove: z.array(z.string()).optional().describe("Users to stop sharing the plan with"),
+  }),
+  execute: async ({ planId, add, remove }) => {
+    if (!add?.length && !remove?.length) {
+      throw new ValidationError("Nothing to change: provide add or remove");
+    }
+    const members = await getGroupMembers(planId);
+    const sharedWith: Record<string, boolean> = {};
+    for (const member of resolveMembers(members, add ?? [])) sharedWith[member.id] = true;
+    for (const member of resolveMembers(members, remove ?? [])) sharedWith[member.id] = false;
+
+    const path = `/planner/plans/${planId}/details`;
+    await patchWithConcurrency(graph, path, { sharedWith });
+    invalidate(`planDetails:${planId}`);
+    const details = await graph.get(path);
+    const sharedIds = Object.entries(details.sharedWith ?? {}).filter(([, shared]) => shared).map(([id]) => id);
+    return JSON.stringify({
+      success: true,
+      sharedWith: sharedIds.map((id) => {
+        const member = members.find((m) => m.id === id);
+        return { id, displayName: member?.displayName, userPrincipalName: member?.userPrincipalName };
+      }),
+    }, null, 2);
+  },
+});
+
+// Tool: Get plan category labels
+addTool({
+  name: "get-plan-categories",
+  description: "Get a plan's category labels as a category1-category25 → label map (null for unnamed categories)",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    ...formatParam,
+  }),
+  execute: async ({ planId, format }) => {
+    const details = await getPlanDetails(planId);
+    const labels = categoryLabels(details.categoryDescriptions ?? {});
+    if (format === "json") return JSON.stringify(labels, null, 2);
+    // Compact and markdown leave out the unnamed categories
+    const named = Object.entries(labels).filter(([, label]) => label);
+    if (format === "markdown") {
+      return named.length ? named.map(([key, label]) => `- **${label}** (${key})`).join("\n") : "_No labels defined_";
+    }
+    return serialize(Object.fromEntries(named), format);
+  },
+});
+
+// Tool: Update plan category labels
+addTool({
+  name: "update-plan-categories",
+  description: "Rename, add or clear a plan's category labels (categoryDescriptions). Auto-fetches ETag.",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    labels: z.partialRecord(z.enum(CATEGORY_KEYS as [string, ...string[]]), z.string().nullable())
+      .describe("Map of category key to new label, e.g. { \"category1\": \"Bug\", \"category4\": null } (null clears the label)"),
+  }),
+  execute: async ({ planId, labels }) => {
+    const path = `/planner/plans/${planId}/details`;
+    await patchWithConcurrency(graph, path, { categoryDescriptions: labels });
+    invalidate(`planDetails:${planId}`);
+    const details = await graph.get(path);
+    return JSON.stringify(categoryLabels(details.categoryDescriptions ?? {}), null, 2);
   },
 });
 
 // Tool: Get all tasks assigned to current user across all plans
-mcp.addTool({
+addTool({
   name: "get-my-tasks",
   description: "Get all tasks assigned to the current user across all plans",
-  parameters: z.object({}),
-  execute: async () => {
-    const url = "https://graph.microsoft.com/v1.0/me/planner/tasks";
-    const result = JSON.parse(azRest("GET", url));
-    return JSON.stringify(result.value, null, 2);
+  parameters: z.object({
+    ...pagingParams,
+    ...formatParam,
+  }),
+  execute: async ({ limit, cursor, format }) => {
+    return listForTool("/me/planner/tasks", { limit, cursor }, { format, render: taskListRenderer });
   },
 });
 
 // Tool: List group members (for finding user IDs for assignment)
-mcp.addTool({
+addTool({
   name: "list-group-members",
   description: "List all members of the group that owns a plan (returns user IDs for task assignment)",
   parameters: z.object({
     planId: z.string().describe("The Planner plan ID (will resolve to the group that owns it)"),
+    ...pagingParams,
+    ...formatParam,
   }),
-  execute: async ({ planId }) => {
-    const groupId = getGroupIdFromPlan(planId);
-    const url = `https://graph.microsoft.com/v1.0/groups/${groupId}/members`;
-    const result = JSON.parse(azRest("GET", url));
+  execute: async ({ planId, limit, cursor, format }) => {
+    const groupId = await getGroupIdFromPlan(planId);
     // Return simplified list with id and displayName
-    const members = result.value.map((m: any) => ({
-      id: m.id,
-      displayName: m.displayName,
-      userPrincipalName: m.userPrincipalName,
-    }));
-    return JSON.stringify(members, null, 2);
+    return listForTool(`/groups/${groupId}/members`, { limit, cursor }, {
+      format,
+      all: () => getGroupMembers(planId),
+      render: {
+        compact: (members) => members,
+        markdown: (members) => markdownTable(members.map((m) => ({ Name: m.displayName, UPN: m.userPrincipalName, ID: m.id }))),
+      },
+      map: (m: any) => ({
+        id: m.id,
+        displayName: m.displayName,
+        userPrincipalName: m.userPrincipalName,
+      }),
+    });
+  },
+});
+
+// Tool: Clear cache
+addTool({
+  name: "clear-cache",
+  description: "Clear cached plan groups, buckets, plan details and group members, e.g. after changes made outside this server (in the Planner app or by someone else)",
+  parameters: z.object({}),
+  execute: async () => {
+    const cleared = clearCache();
+    return JSON.stringify({ success: true, cleared }, null, 2);
   },
 });
 
 // Tool: Get task comments
-mcp.addTool({
+addTool({
   name: "get-task-comments",
-  description: "Get all comments on a Planner task",
+  description: "Get the comments on a Planner task, oldest first, rendered as Markdown with quoted reply chains removed. Filter by author or date and page with limit/cursor.",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
+    author: z.string().optional().describe("Only comments whose author name or email contains this text"),
+    since: z.string().optional().describe("Only comments posted at or after this time (ISO 8601)"),
+    until: z.string().optional().describe("Only comments posted at or before this time (ISO 8601)"),
+    contentFormat: z.enum(["markdown", "html"]).optional().default("markdown").describe("markdown: cleaned-up Markdown; html: the post body as stored"),
+    includeQuoted: z.boolean().optional().default(false).describe("Keep the quoted earlier messages that email replies carry"),
+    ...pagingParams,
+    ...formatParam,
   }),
-  execute: async ({ taskId }) => {
+  execute: async ({ taskId, author, since, until, contentFormat, includeQuoted, limit, cursor, format }) => {
     // Get task to find conversationThreadId and planId
-    const taskUrl = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    const task = JSON.parse(azRest("GET", taskUrl));
+    const task = await graph.get(`/planner/tasks/${taskId}`);
 
     if (!task.conversationThreadId) {
-      return JSON.stringify({ comments: [], message: "No comments on this task" });
+      return format === "markdown" ? "_No comments on this task_" : JSON.stringify({ comments: [], message: "No comments on this task" });
     }
 
-    const groupId = getGroupIdFromPlan(task.planId);
-
-    // Planner's conversationThreadId is a conversation ID - get threads from it, then posts
-    const threadsUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/conversations/${task.conversationThreadId}/threads`;
-    const threadsResult = JSON.parse(azRest("GET", threadsUrl));
-
-    // Collect posts from all threads
-    const comments: any[] = [];
-    for (const thread of threadsResult.value) {
-      const postsUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/conversations/${task.conversationThreadId}/threads/${thread.id}/posts`;
-      const postsResult = JSON.parse(azRest("GET", postsUrl));
-
-      for (const post of postsResult.value) {
-        comments.push({
-          id: post.id,
-          threadId: thread.id,
-          content: post.body?.content,
-          contentType: post.body?.contentType,
-          createdDateTime: post.createdDateTime,
-          from: post.from?.emailAddress?.name || post.from?.emailAddress?.address,
-        });
-      }
+    const groupId = await getGroupIdFromPlan(task.planId);
+    const comments = filterComments(await listTaskComments(graph, groupId, task.conversationThreadId), { author, since, until });
+    const page = pageComments(comments, { limit, cursor });
+    const items = page.items.map((comment) => contentFormat === "html" || comment.contentType !== "html"
+      ? comment
+      : { ...comment, content: htmlToMarkdown(comment.content ?? "", includeQuoted), contentType: "markdown" });
+    const paged = Boolean(limit || cursor);
+    if (format === "markdown") {
+      const markdown = markdownComments(items);
+      return paged ? `${markdown}\n\nnextCursor: ${page.nextCursor ?? "(none)"}` : markdown;
     }
-
-    return JSON.stringify(comments, null, 2);
+    const rendered = format === "compact" ? items.map(compactComment) : items;
+    return serialize(paged ? { items: rendered, nextCursor: page.nextCursor ?? null } : rendered, format);
   },
 });
 
 // Tool: Add task comment
-mcp.addTool({
+addTool({
   name: "add-task-comment",
-  description: "Add a comment to a Planner task",
+  description: "Add a comment to a Planner task. Markdown (bold, italics, links, lists, code) is converted to HTML; mention people with @[Display Name] or @user@domain.",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
-    comment: z.string().describe("The comment text to add"),
+    comment: z.string().describe("The comment to add"),
+    format: z.enum(["markdown", "text"]).optional().default("markdown").describe("markdown: render Markdown and resolve @-mentions; text: post as plain text"),
   }),
-  execute: async ({ taskId, comment }) => {
+  execute: async ({ taskId, comment, format }) => {
     // Get task to find conversationThreadId and planId
-    const taskUrl = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    const task = JSON.parse(azRest("GET", taskUrl));
-    const groupId = getGroupIdFromPlan(task.planId);
+    const task = await graph.get(`/planner/tasks/${taskId}`);
+    const groupId = await getGroupIdFromPlan(task.planId);
+
+    let mentioned: GroupMember[] = [];
+    let result;
+    if (format === "markdown") {
+      const members = comment.includes("@") ? await getGroupMembers(task.planId) : [];
+      const resolved = resolveMentions(comment, members);
+      mentioned = resolved.mentioned;
+      result = await addTaskComment(graph, groupId, task, markdownToHtml(resolved.markdown), "html");
+    } else {
+      result = await addTaskComment(graph, groupId, task, comment);
+    }
+    const mentions = mentioned.length ? { mentioned: mentioned.map((m) => m.displayName ?? m.userPrincipalName ?? m.id) } : {};
+    if (result.warning) {
+      return JSON.stringify({ success: true, warning: result.warning, conversationId: result.conversationId, ...mentions });
+    }
+    if (result.created) {
+      return JSON.stringify({ success: true, message: "New conversation created", conversationId: result.conversationId, ...mentions });
+    }
+    return JSON.stringify({ success: true, message: "Comment added to existing thread", ...mentions });
+  },
+});
 
-    if (task.conversationThreadId) {
-      // Reply to existing conversation - need to get the thread ID first
-      const threadsUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/conversations/${task.conversationThreadId}/threads`;
-      const threadsResult = JSON.parse(azRest("GET", threadsUrl));
+// Tool: Bulk task updates through Graph $batch
+addTool({
+  name: "bulk-update-tasks",
+  description: "Apply many task changes at once (move, complete, reassign, re-date, relabel, reprioritize). Runs through Graph $batch in groups of 20 with per-task ETags and retries, and returns a per-task success/failure report instead of stopping at the first error.",
+  parameters: z.object({
+    operations: z.array(z.object({
+      taskId: z.string().describe("The task ID"),
+      bucket: z.string().optional().describe("Move to this bucket (name or ID)"),
+      title: z.string().optional().describe("New title"),
+      complete: z.boolean().optional().describe("true marks the task complete (100%), false reopens it (0%)"),
+      percentComplete: z.number().min(0).max(100).optional().describe("Progress 0-100"),
+      priority: z.number().int().min(0).max(10).optional().describe("Priority 0-10"),
+      startDateTime: z.string().optional().describe("Start date (ISO 8601) or 'clear'"),
+      dueDateTime: z.string().optional().describe("Due date (ISO 8601) or 'clear'"),
+      assign: z.array(z.string()).optional().describe("Users to assign (ID, UPN/email or display name)"),
+      unassign: z.array(z.string()).optional().describe("Users to unassign (ID, UPN/email or display name)"),
+      categories: z.array(z.string()).optional().describe("Categories to apply (label names or category1-category25)"),
+      removeCategories: z.array(z.string()).optional().describe("Categories to remove (label names or category1-category25)"),
+    })).min(1).describe("Task changes to apply"),
+  }),
+  execute: async ({ operations }) => {
+    // Read every task in one pass for its ETag, plan and current state
+    const reads = await graph.batch(operations.map((op, i) => ({ id: String(i), method: "GET", url: `/planner/tasks/${op.taskId}` })));
+    const contexts = new Map<string, PlanContext>();
+    const results: Record<string, unknown>[] = operations.map((op) => ({ taskId: op.taskId }));
+    const patches: { index: number; path: string; base: any; changes: Record<string, any> }[] = [];
+
+    for (const [i, op] of operations.entries()) {
+      const path = `/planner/tasks/${op.taskId}`;
+      const read = reads.get(String(i));
+      if (read?.status !== 200) {
+        results[i] = { taskId: op.taskId, success: false, error: batchError("GET", path, read).toJSON() };
+        continue;
+      }
+      const task = read.body;
+      try {
+        if (!contexts.has(task.planId)) contexts.set(task.planId, await loadPlanContext(task.planId));
+        const ctx = contexts.get(task.planId)!;
+        const members = [...ctx.members.values()];
+        const changes = buildTaskFields({
+          title: op.title,
+          percentComplete: op.complete === undefined ? op.percentComplete : op.complete ? 100 : 0,
+          priority: op.priority,
+          startDateTime: op.startDateTime,
+          dueDateTime: op.dueDateTime,
+          assigneeIds: resolveMembers(members, op.assign ?? []).map((m) => m.id),
+          categories: resolveCategories(ctx.categoryLabels, op.categories ?? []),
+          removeCategories: resolveCategories(ctx.categoryLabels, op.removeCategories ?? []),
+        });
+        if (op.bucket) changes.bucketId = resolveBucket(ctx.buckets, op.bucket);
+        for (const member of resolveMembers(members, op.unassign ?? [])) {
+          changes.assignments = { ...changes.assignments, [member.id]: null };
+        }
+        if (Object.keys(changes).length === 0) {
+          throw new ValidationError("No changes given for this task");
+        }
+        patches.push({ index: i, path, base: task, changes });
+      } catch (error) {
+        if (!(error instanceof PlannerError)) throw error;
+        results[i] = { taskId: op.taskId, success: false, error: error.toJSON() };
+      }
+    }
+
+    const outcomes = await batchPatchWithConcurrency(graph, patches);
+    for (const [n, outcome] of outcomes.entries()) {
+      const { index } = patches[n];
+      const taskId = operations[index].taskId;
+      results[index] = outcome.ok
+        ? { taskId, success: true, ...(outcome.retried ? { retriedAfterConcurrentEdit: true } : {}) }
+        : { taskId, success: false, error: outcome.error.toJSON() };
+    }
 
-      if (!threadsResult.value || threadsResult.value.length === 0) {
-        throw new Error("Conversation exists but has no threads");
+    const succeeded = results.filter((r) => r.success).length;
+    return JSON.stringify({ total: operations.length, succeeded, failed: operations.length - succeeded, results }, null, 2);
+  },
+});
+
+// Tool: Sync a plan to a declarative manifest
+addTool({
+  name: "sync-plan",
+  description: "Reconcile a plan with a YAML/JSON manifest of buckets and tasks (titles, assignees by UPN, labels, dates, priority, description, checklist). Tasks are matched by a stable key stored in their description. Dry-run by default: returns the create/update/delete diff; set apply to make the changes.",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    manifest: z.string().optional().describe("Manifest text (YAML or JSON)"),
+    manifestPath: z.string().optional().describe("Local path to a manifest file (instead of manifest)"),
+    apply: z.boolean().optional().default(false).describe("Apply the changes (default false: dry run)"),
+  }),
+  execute: async ({ planId, manifest, manifestPath, apply }) => {
+    if (!manifest === !manifestPath) {
+      throw new ValidationError("Provide exactly one of manifest or manifestPath");
+    }
+    let text = manifest;
+    if (manifestPath) {
+      const path = localPath(manifestPath, "manifestPath");
+      try {
+        text = readFileSync(path, "utf-8");
+      } catch (error: any) {
+        throw new ValidationError(`Cannot read manifest: ${error.message}`, { manifestPath });
       }
+    }
+    const parsed = parseManifest(text!);
+
+    // Current state: every task plus its details (where the sync key lives)
+    const [tasks, ctx] = await Promise.all([graph.listAll(`/planner/plans/${planId}/tasks`), loadPlanContext(planId)]);
+    const withDescription = tasks.filter((task: any) => task.hasDescription);
+    const details = await graph.batch(withDescription.map((task: any) => ({ id: task.id, method: "GET", url: `/planner/tasks/${task.id}/details` })));
+    const state: PlanState = {
+      planId,
+      ctx,
+      tasks: tasks.map((task: any) => ({ task, details: details.get(task.id)?.status === 200 ? details.get(task.id)!.body : {} })),
+    };
 
-      const threadId = threadsResult.value[0].id;
-      const replyUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/conversations/${task.conversationThreadId}/threads/${threadId}/reply`;
-      const body = {
-        post: {
-          body: {
-            contentType: "text",
-            content: comment,
-          },
-        },
-      };
-      azRest("POST", replyUrl, body);
-      return JSON.stringify({ success: true, message: "Comment added to existing thread" });
-    } else {
-      // Create new conversation (POST to threads creates a conversation with initial thread)
-      const threadsUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/threads`;
-      const threadBody = {
-        topic: task.title,
-        posts: [
-          {
-            body: {
-              contentType: "text",
-              content: comment,
-            },
-          },
-        ],
-      };
-      const threadResult = JSON.parse(azRest("POST", threadsUrl, threadBody));
-      // Graph API returns conversationId for the parent conversation - that's what Planner needs
-      const conversationId = threadResult.conversationId || threadResult.id;
-
-      // Update task with the conversation ID
-      const etag = getETag("task", taskId);
-      const escapedEtag = etag.replace(/"/g, '\\"');
-      const updateUrl = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-      const args = [
-        `az rest --method PATCH --url "${updateUrl}"`,
-        `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-        `--body '${JSON.stringify({ conversationThreadId: conversationId })}'`,
-      ];
+    const plan = computeSyncPlan(parsed, state);
+    const summary = {
+      create: plan.actions.filter((a) => a.action === "create").length,
+      update: plan.actions.filter((a) => a.action === "update").length,
+      delete: plan.actions.filter((a) => a.action === "delete").length,
+    };
+    const report = {
+      mode: apply ? "apply" : "dry-run",
+      summary,
+      diff: plan.actions.map(describeAction),
+      unmanagedBuckets: plan.unmanagedBuckets,
+      warnings: plan.warnings,
+    };
+    if (!apply) return JSON.stringify(report, null, 2);
+
+    const results = await applySyncPlan(graph, state, plan);
+    invalidate(`buckets:${state.planId}`);
+    return JSON.stringify({ ...report, failed: results.filter((r) => !r.success).length, results }, null, 2);
+  },
+});
+
+// Tool: What changed in a plan since a time or the last check
+addTool({
+  name: "get-plan-changes",
+  description: "Report what changed in a plan (tasks created, completed, reopened, moved, reassigned, re-dated or deleted) since a timestamp or since the last time this tool ran, as a standup-ready summary grouped by kind of change",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    since: z.string().optional().describe("Report changes from this date/time (ISO 8601, e.g. 2024-03-14 or 2024-03-14T09:00:00Z; default: the last saved checkpoint)"),
+    saveCheckpoint: z.boolean().optional().default(true).describe("Save the plan's current state as the checkpoint for the next run"),
+    format: z.enum(["markdown", "json"]).optional().default("markdown").describe("markdown: grouped summary for a standup note; json: structured changes"),
+  }),
+  execute: async ({ planId, since, saveCheckpoint, format }) => {
+    let sinceTime: string | undefined;
+    if (since) {
+      const parsed = new Date(normalizeDateTime(since, false) ?? "");
+      if (Number.isNaN(parsed.getTime())) throw new ValidationError(`Invalid since: ${since}`, { hint: "Use an ISO 8601 date or date/time" });
+      sinceTime = parsed.toISOString();
+    }
+
+    const [plan, tasks, ctx] = await Promise.all([
+      graph.get(`/planner/plans/${planId}`),
+      graph.listAll(`/planner/plans/${planId}/tasks`),
+      loadPlanContext(planId, { buckets: true, members: true }),
+    ]);
+    const dir = snapshotDirFromEnv();
+    // Checkpoints belong to the caller: the session's user over HTTP, the OS user over stdio
+    const owner = currentSession()?.userId ?? userInfo().username;
+    const history = readSnapshots(dir, planId, owner);
+    const baseline = baselineFor(history.snapshots, sinceTime);
+    const current = takeSnapshot(tasks);
+    if (saveCheckpoint) recordSnapshot(dir, planId, owner, current);
+
+    const start = sinceTime ?? baseline?.takenAt;
+    if (!start) {
+      const empty = emptyChanges(current.takenAt, current.takenAt, "snapshot");
+      if (history.note) empty.notes.push(history.note);
+      empty.notes.push(saveCheckpoint
+        ? "No checkpoint saved for this plan yet. One was saved now, so the next run reports changes from here; pass since to look further back"
+        : "No checkpoint saved for this plan yet. Pass since, or run with saveCheckpoint to start tracking");
+      return format === "markdown" ? markdownChanges(empty, plan.title) : JSON.stringify(empty, null, 2);
+    }
+    const changes = diffPlan(current, baseline, start, ctx);
+    if (history.note) changes.notes.push(history.note);
+    if (!baseline) {
+      changes.reassigned = assignmentsSince(tasks, start, ctx);
+      changes.notes.push("No checkpoint from before this time: moves, date changes, removed assignees and deletions can't be detected");
+    }
+    return format === "markdown" ? markdownChanges(changes, plan.title) : JSON.stringify(changes, null, 2);
+  },
+});
+
+// Tool: Export a whole plan to a portable archive
+addTool({
+  name: "export-plan",
+  description: "Export a plan (buckets, tasks, details, checklists, references, assignments, category labels and comments) to a versioned JSON or NDJSON archive for backup, audit or cloning with import-plan",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    encoding: z.enum(ARCHIVE_ENCODINGS).optional().default("json").describe("json: one document; ndjson: one record per line"),
+    comments: z.boolean().optional().default(true).describe("Include task comments (one extra request per commented task)"),
+    outputPath: z.string().optional().describe("Write the archive to this local file instead of returning it"),
+  }),
+  execute: async ({ planId, encoding, comments, outputPath }) => {
+    const archive = await exportPlan(graph, planId, { comments });
+    const text = serializeArchive(archive, encoding);
+    if (!outputPath) return text;
+
+    const path = localPath(outputPath, "outputPath");
+    try {
+      writeFileSync(path, text, "utf-8");
+    } catch (error: any) {
+      throw new ValidationError(`Cannot write archive: ${error.message}`, { outputPath });
+    }
+    return JSON.stringify({
+      success: true,
+      outputPath,
+      plan: archive.plan.title,
+      buckets: archive.buckets.length,
+      tasks: archive.tasks.length,
+      comments: archive.tasks.reduce((n, t) => n + t.comments.length, 0),
+    }, null, 2);
+  },
+});
+
+// Tool: Import a plan archive into a plan
+addTool({
+  name: "import-plan",
+  description: "Recreate a plan archive from export-plan in a target plan (or a new plan in a group). Buckets with matching names are reused; new IDs are reported as old → new maps. Assignees are mapped by ID, then UPN/email, or through assigneeMap.",
+  parameters: z.object({
+    archive: z.string().optional().describe("Archive text (JSON or NDJSON)"),
+    archivePath: z.string().optional().describe("Local path to an archive file (instead of archive)"),
+    targetPlanId: z.string().optional().describe("Plan to import into"),
+    groupId: z.string().optional().describe("Create a new plan in this group instead of using targetPlanId"),
+    title: z.string().optional().describe("Title for the new plan (default: the archived plan's title)"),
+    assigneeMap: z.record(z.string(), z.string().nullable()).optional()
+      .describe("Source user (ID, UPN or email) → target user (ID, UPN, email or name); null drops the assignee"),
+    labels: z.boolean().optional().default(true).describe("Copy the archive's category labels onto the target plan"),
+    comments: z.boolean().optional().default(true).describe("Re-post archived comments (prefixed with the original author and date)"),
+  }),
+  execute: async ({ archive, archivePath, targetPlanId, groupId, title, assigneeMap, labels, comments }) => {
+    if (!archive === !archivePath) {
+      throw new ValidationError("Provide exactly one of archive or archivePath");
+    }
+    if (!targetPlanId === !groupId) {
+      throw new ValidationError("Provide exactly one of targetPlanId or groupId");
+    }
+    let text = archive;
+    if (archivePath) {
+      const path = localPath(archivePath, "archivePath");
       try {
-        execSync(args.join(" "), { encoding: "utf-8" });
+        text = readFileSync(path, "utf-8");
       } catch (error: any) {
-        // Thread was created but task update may fail - comment still exists
-        return JSON.stringify({
-          success: true,
-          warning: "Thread created but task link may have failed",
-          conversationId
-        });
+        throw new ValidationError(`Cannot read archive: ${error.message}`, { archivePath });
       }
-      return JSON.stringify({ success: true, message: "New conversation created", conversationId });
     }
+    const parsed = parseArchive(text!);
+
+    let planId = targetPlanId;
+    if (groupId) {
+      const plan = await graph.post("/planner/plans", {
+        title: title ?? parsed.plan.title,
+        container: { url: graph.url(`/groups/${groupId}`) },
+      });
+      planId = plan.id;
+    }
+
+    const result = await importPlan(graph, parsed, planId!, { assigneeMap, labels, comments });
+    invalidate(`buckets:${planId}`, `planDetails:${planId}`);
+    return JSON.stringify({ success: result.failures.length === 0, ...result }, null, 2);
   },
 });
 
 // Tool: Move task to different bucket
-mcp.addTool({
+addTool({
   name: "move-task",
-  description: "Move a task to a different bucket",
+  description: "Move a task to a different bucket, optionally to the top or bottom of it (use place-task to put it next to a specific task)",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
     bucketId: z.string().describe("The target bucket ID"),
+    position: z.enum(["top", "bottom"]).optional().describe("Where to put the task in the bucket (default: wherever Planner puts it)"),
   }),
-  execute: async ({ taskId, bucketId }) => {
-    const etag = getETag("task", taskId);
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify({ bucketId })}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Task moved successfully";
-    } catch (error: any) {
-      throw new Error(`Move task failed: ${error.message}`);
+  execute: async ({ taskId, bucketId, position }) => {
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}`, { bucketId });
+    if (position) {
+      const others = (await graph.listAll(`/planner/buckets/${bucketId}/tasks`)).filter((t: any) => t.id !== taskId);
+      const formats = await loadBoardFormats(graph, others, "bucket");
+      // Tasks without a board hint yet have no place to be above or below
+      const hints = others
+        .map((t: any) => ({ orderHint: hintOf("bucket", formats.get(t.id), bucketId) }))
+        .filter((entry) => entry.orderHint)
+        .sort(byOrderHint)
+        .map((entry) => entry.orderHint);
+      const hint = position === "top" ? hintBetween(undefined, hints[0]) : hintBetween(hints[hints.length - 1], undefined);
+      await patchWithConcurrency(graph, formatPath("bucket", taskId), hintPatch("bucket", bucketId, hint));
+    }
+    return "Task moved successfully";
+  },
+});
+
+// Tool: Read a board view in display order
+addTool({
+  name: "get-board-view",
+  description: "Read a plan's board as Planner shows it: columns left to right with tasks in display order. Views: bucket (by bucket), assignedTo (by assignee), progress (not started / in progress / completed).",
+  parameters: z.object({
+    planId: z.string().describe("The Planner plan ID"),
+    view: z.enum(BOARD_VIEWS).optional().default("bucket").describe("Which board view to read"),
+    ...formatParam,
+  }),
+  execute: async ({ planId, view, format }) => {
+    const named = format !== "json";
+    const [tasks, buckets, ctx] = await Promise.all([
+      graph.listAll(`/planner/plans/${planId}/tasks`),
+      view === "bucket" ? getPlanBuckets(planId) : [],
+      loadPlanContext(planId, { buckets: named, categories: named, members: named || view === "assignedTo" }),
+    ]);
+    const formats = await loadBoardFormats(graph, tasks, view);
+    const columns = boardColumns(view, tasks, formats, ctx, buckets);
+    if (format === "markdown") return markdownBoard(columns, ctx);
+    return serialize({
+      view,
+      columns: columns.map(({ key, name, tasks }) => ({
+        id: key,
+        name,
+        tasks: format === "compact" ? tasks.map((task) => compactTask(task, ctx)) : tasks,
+      })),
+    }, format);
+  },
+});
+
+// Tool: Place a task before or after another task in a board view
+addTool({
+  name: "place-task",
+  description: "Put a task directly before (above) or after (below) another task in a board view, computing the order hints. In the bucket view the task also moves into the other task's bucket if needed.",
+  parameters: z.object({
+    taskId: z.string().describe("The task to place"),
+    view: z.enum(BOARD_VIEWS).optional().default("bucket").describe("Board view to reorder: bucket, assignedTo or progress"),
+    before: z.string().optional().describe("Place the task directly above this task (ID)"),
+    after: z.string().optional().describe("Place the task directly below this task (ID)"),
+    assignee: z.string().optional().describe("assignedTo view only: the assignee column to reorder, when the tasks share several assignees"),
+  }),
+  execute: async ({ taskId, view, before, after, assignee }) => {
+    if (!before === !after) {
+      throw new ValidationError("Provide exactly one of before or after");
+    }
+    const anchorId = (before ?? after)!;
+    if (anchorId === taskId) throw new ValidationError("A task can't be placed relative to itself");
+    const [task, anchor] = await Promise.all([graph.get(`/planner/tasks/${taskId}`), graph.get(`/planner/tasks/${anchorId}`)]);
+    if (task.planId !== anchor.planId) throw new ValidationError("Both tasks must be in the same plan");
+
+    // The column the task ends up in: the anchor's bucket, progress column or shared assignee
+    let column: string;
+    if (view === "bucket") {
+      column = anchor.bucketId;
+    } else if (view === "progress") {
+      column = taskStatus(anchor);
+      if (taskStatus(task) !== column) {
+        throw new ValidationError("The tasks are in different progress columns", { hint: "Change the task's progress with update-task first" });
+      }
+    } else {
+      const shared = columnKeys(view, anchor).filter((key) => columnKeys(view, task).includes(key));
+      if (assignee) {
+        const ctx = await loadPlanContext(task.planId, { members: true });
+        column = resolveMembers([...ctx.members.values()], [assignee])[0].id;
+        if (!shared.includes(column)) throw new ValidationError(`Both tasks must be assigned to ${assignee}`);
+      } else if (shared.length === 1) {
+        column = shared[0];
+      } else {
+        throw new ValidationError(shared.length > 1
+          ? "The tasks share several assignees; pass assignee to choose the column"
+          : "The tasks have no assignee column in common");
+      }
     }
+
+    // Current order of that column, without the task being placed
+    const candidates = view === "bucket"
+      ? await graph.listAll(`/planner/buckets/${column}/tasks`)
+      : await graph.listAll(`/planner/plans/${task.planId}/tasks`);
+    const inColumn = candidates.filter((t: any) => t.id !== taskId && columnKeys(view, t).includes(column));
+    const formats = await loadBoardFormats(graph, inColumn, view);
+    const ordered = inColumn
+      .map((t: any) => ({ task: t, orderHint: hintOf(view, formats.get(t.id), column) }))
+      .sort(byOrderHint);
+    const index = ordered.findIndex((entry) => entry.task.id === anchorId);
+    const [above, below] = before ? [ordered[index - 1], ordered[index]] : [ordered[index], ordered[index + 1]];
+
+    if (view === "bucket" && task.bucketId !== column) {
+      await patchWithConcurrency(graph, `/planner/tasks/${taskId}`, { bucketId: column });
+    }
+    const hint = hintBetween(above?.orderHint, below?.orderHint);
+    await patchWithConcurrency(graph, formatPath(view, taskId), hintPatch(view, column, hint));
+    return JSON.stringify({
+      success: true,
+      view,
+      column,
+      above: above ? { id: above.task.id, title: above.task.title } : null,
+      below: below ? { id: below.task.id, title: below.task.title } : null,
+    }, null, 2);
   },
 });
 
 // Tool: Create bucket
-mcp.addTool({
+addTool({
   name: "create-bucket",
   description: "Create a new bucket in a Planner plan",
   parameters: z.object({
@@ -623,15 +1640,76 @@ mcp.addTool({
     name: z.string().describe("The bucket name"),
   }),
   execute: async ({ planId, name }) => {
-    const url = "https://graph.microsoft.com/v1.0/planner/buckets";
     const body = { planId, name, orderHint: " !" };
-    const result = azRest("POST", url, body);
-    return result;
+    const result = await graph.post("/planner/buckets", body);
+    invalidate(`buckets:${planId}`);
+    return JSON.stringify(result, null, 2);
+  },
+});
+
+// Tool: Reorder buckets
+addTool({
+  name: "reorder-buckets",
+  description: "Reorder a plan's buckets on the board. Give the buckets (names or IDs) in the order you want; buckets not listed keep their current order after them.",
+  parameters: z.object({
+    planId: z.string().describe("The plan ID"),
+    order: z.array(z.string()).min(1).describe("Bucket names or IDs in the desired left-to-right order"),
+  }),
+  execute: async ({ planId, order }) => {
+    const buckets = (await graph.listAll(`/planner/plans/${planId}/buckets`)).sort(byOrderHint);
+    const names = new Map<string, string>(buckets.map((b: any) => [b.id, b.name]));
+    const listed = order.map((ref) => resolveBucket(names, ref));
+    const duplicates = listed.filter((id, i) => listed.indexOf(id) !== i);
+    if (duplicates.length > 0) {
+      throw new ValidationError("The same bucket is listed more than once", { duplicates: [...new Set(duplicates)].map((id) => names.get(id)) });
+    }
+    const sequence = [...listed.map((id) => buckets.find((b: any) => b.id === id)), ...buckets.filter((b: any) => !listed.includes(b.id))];
+
+    // Fresh hints for the whole sequence, written in one $batch
+    const hints = hintsBetween(undefined, undefined, sequence.length);
+    const moves = sequence.map((bucket, i) => ({ path: `/planner/buckets/${bucket.id}`, base: bucket, changes: { orderHint: hints[i] } }));
+    const outcomes = await batchPatchWithConcurrency(graph, moves);
+    invalidate(`buckets:${planId}`);
+    const failed = outcomes.flatMap((outcome, i) => outcome.ok ? [] : [{ bucket: sequence[i].name, error: outcome.error.toJSON() }]);
+    return JSON.stringify({ success: failed.length === 0, order: sequence.map((b) => b.name), failed }, null, 2);
+  },
+});
+
+// Tool: Move tasks from one bucket to another
+addTool({
+  name: "move-bucket-tasks",
+  description: "Move every task (or a filtered subset) from one bucket to another, through Graph $batch with a per-task report",
+  parameters: z.object({
+    planId: z.string().describe("The plan ID"),
+    from: z.string().describe("Source bucket (name or ID)"),
+    to: z.string().describe("Target bucket (name or ID)"),
+    assignees: z.array(z.string()).optional().describe("Only tasks assigned to any of these users (ID, UPN/email or display name)"),
+    unassigned: z.boolean().optional().describe("Only tasks with no assignees"),
+    categories: z.array(z.string()).optional().describe("Only tasks with any of these categories (label names or category1-category25)"),
+    status: z.enum(TASK_STATUSES).optional().describe("notStarted, inProgress, completed, or open (anything not completed)"),
+    dueBefore: z.string().optional().describe("Only tasks due before this date (ISO 8601)"),
+    dueAfter: z.string().optional().describe("Only tasks due after this date (ISO 8601)"),
+    overdue: z.boolean().optional().describe("Only incomplete tasks whose due date has passed"),
+    priority: z.enum(PRIORITY_NAMES).optional().describe("Only tasks with this priority"),
+    titleContains: z.string().optional().describe("Only tasks whose title contains this text (case-insensitive)"),
+  }),
+  execute: async ({ planId, from, to, assignees, ...filter }) => {
+    const ctx = await loadPlanContext(planId, { buckets: true, categories: Boolean(filter.categories?.length), members: Boolean(assignees?.length) });
+    const fromId = resolveBucket(ctx.buckets, from);
+    const toId = resolveBucket(ctx.buckets, to);
+    if (fromId === toId) throw new ValidationError("Source and target bucket are the same");
+
+    const assigneeIds = assignees && resolveMembers([...ctx.members.values()], assignees).map((m) => m.id);
+    const tasks = (await graph.listAll(`/planner/buckets/${fromId}/tasks`))
+      .filter((task: any) => matchesFilter(task, { ...filter, assigneeIds }, ctx));
+    const results = await moveTasksToBucket(tasks, toId);
+    const moved = results.filter((r) => r.success).length;
+    return JSON.stringify({ from: ctx.buckets.get(fromId), to: ctx.buckets.get(toId), matched: tasks.length, moved, failed: tasks.length - moved, results }, null, 2);
   },
 });
 
 // Tool: Update bucket
-mcp.addTool({
+addTool({
   name: "update-bucket",
   description: "Update a bucket's name",
   parameters: z.object({
@@ -639,85 +1717,125 @@ mcp.addTool({
     name: z.string().describe("The new bucket name"),
   }),
   execute: async ({ bucketId, name }) => {
-    const etag = getETag("bucket", bucketId);
-    const url = `https://graph.microsoft.com/v1.0/planner/buckets/${bucketId}`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method PATCH --url "${url}"`,
-      `--headers "Content-Type=application/json" "If-Match=${escapedEtag}"`,
-      `--body '${JSON.stringify({ name })}'`,
-    ];
-    try {
-      const result = execSync(args.join(" "), { encoding: "utf-8" });
-      return result || "Bucket updated successfully";
-    } catch (error: any) {
-      throw new Error(`Update bucket failed: ${error.message}`);
-    }
+    await patchWithConcurrency(graph, `/planner/buckets/${bucketId}`, { name });
+    // The bucket's plan isn't known here, so every cached bucket list is dropped
+    invalidate("buckets:");
+    return "Bucket updated successfully";
   },
 });
 
 // Tool: Delete bucket
-mcp.addTool({
+addTool({
   name: "delete-bucket",
-  description: "Delete a bucket from a Planner plan",
+  description: "Delete a bucket from a Planner plan. Refuses a bucket that still has tasks unless they are moved elsewhere first (moveTasksTo) or force is set.",
   parameters: z.object({
     bucketId: z.string().describe("The bucket ID to delete"),
+    moveTasksTo: z.string().optional().describe("Move the bucket's tasks to this bucket (name or ID) before deleting"),
+    force: z.boolean().optional().default(false).describe("Delete the bucket even though it has tasks (the tasks are deleted with it)"),
   }),
-  execute: async ({ bucketId }) => {
-    const etag = getETag("bucket", bucketId);
-    const url = `https://graph.microsoft.com/v1.0/planner/buckets/${bucketId}`;
-    const escapedEtag = etag.replace(/"/g, '\\"');
-    const args = [
-      `az rest --method DELETE --url "${url}"`,
-      `--headers "If-Match=${escapedEtag}"`,
-    ];
-    try {
-      execSync(args.join(" "), { encoding: "utf-8" });
-      return "Bucket deleted successfully";
-    } catch (error: any) {
-      throw new Error(`Delete bucket failed: ${error.message}`);
+  execute: async ({ bucketId, moveTasksTo, force }) => {
+    const [bucket, tasks] = await Promise.all([
+      graph.get(`/planner/buckets/${bucketId}`),
+      graph.listAll(`/planner/buckets/${bucketId}/tasks`),
+    ]);
+    let moved: Record<string, unknown> | undefined;
+    if (tasks.length > 0 && moveTasksTo) {
+      const ctx = await loadPlanContext(bucket.planId, { buckets: true });
+      const targetId = resolveBucket(ctx.buckets, moveTasksTo);
+      if (targetId === bucketId) throw new ValidationError("moveTasksTo is the bucket being deleted");
+      const results = await moveTasksToBucket(tasks, targetId);
+      const failed = results.filter((r) => !r.success);
+      if (failed.length > 0) {
+        // Keep the bucket so the tasks that didn't move aren't deleted with it
+        throw new PlannerError("conflict", `${failed.length} task(s) could not be moved; the bucket was not deleted`, { results: failed });
+      }
+      moved = { to: ctx.buckets.get(targetId), tasks: tasks.length };
+    } else if (tasks.length > 0 && !force) {
+      throw new ValidationError(`Bucket "${bucket.name}" still has ${tasks.length} task(s)`, {
+        hint: "Pass moveTasksTo to relocate them first, or force: true to delete them with the bucket",
+        tasks: tasks.map((t: any) => ({ id: t.id, title: t.title })),
+      });
     }
+
+    await graph.delete(`/planner/buckets/${bucketId}`, bucket["@odata.etag"]);
+    invalidate(`buckets:${bucket.planId}`);
+    return moved ? JSON.stringify({ success: true, message: "Bucket deleted successfully", movedTasks: moved }, null, 2) : "Bucket deleted successfully";
   },
 });
 
 // Tool: Add reference (attachment link)
-mcp.addTool({
+addTool({
   name: "add-reference",
-  description: "Add a reference (URL attachment) to a Planner task",
+  description: "Add a reference (URL attachment) to a Planner task. GitHub pull request, issue and commit links get an org/repo#123 style alias when none is given.",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
     url: z.string().describe("The URL to attach"),
-    alias: z.string().optional().describe("Display name for the reference"),
+    alias: z.string().optional().describe("Display name for the reference (default for GitHub links: org/repo#123 or org/repo@sha)"),
     type: z.string().optional().describe("Reference type (e.g., 'Other', 'PowerPoint', 'Excel', 'Word', 'Pdf')"),
   }),
   execute: async ({ taskId, url: refUrl, alias, type }) => {
-    const etag = getETag("taskDetails", taskId);
     const encodedUrl = encodeUrlForReference(refUrl);
-
-    const referenceData: Record<string, any> = {
-      "@odata.type": "#microsoft.graph.plannerExternalReference",
-    };
-    if (alias) referenceData.alias = alias;
-    if (type) referenceData.type = type;
-
     const body = {
       references: {
-        [encodedUrl]: referenceData,
+        [encodedUrl]: referenceEntry(referenceAlias(refUrl, alias), type),
       },
     };
 
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    try {
-      const result = azRestPatchWithEtag(url, etag, body);
-      return result || "Reference added successfully";
-    } catch (error: any) {
-      throw new Error(`Add reference failed: ${error.message}`);
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, body);
+    return "Reference added successfully";
+  },
+});
+
+// Tool: List references
+addTool({
+  name: "list-references",
+  description: "List a task's references with their real URLs, aliases and types, in preview priority order. GitHub pull requests, issues and commits are identified.",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    ...formatParam,
+  }),
+  execute: async ({ taskId, format }) => {
+    const details = await graph.get(`/planner/tasks/${taskId}/details`);
+    const references = listReferences(details.references).map(({ key, ...ref }) => ref);
+    if (format === "markdown") return markdownReferences(references);
+    if (format === "compact") return serialize(references.map(compactReference), format);
+    return JSON.stringify({ taskId, previewType: details.previewType, count: references.length, references }, null, 2);
+  },
+});
+
+// Tool: Update reference
+addTool({
+  name: "update-reference",
+  description: "Rename a task reference, change its type, or make it the reference shown on the task card",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    url: z.string().describe("The URL of the reference to update"),
+    alias: z.string().optional().describe("New display name"),
+    type: z.string().optional().describe("New reference type (e.g., 'Other', 'PowerPoint', 'Excel', 'Word', 'Pdf')"),
+    preview: z.boolean().optional().describe("Move this reference to the top of the preview order and show it on the task card"),
+  }),
+  execute: async ({ taskId, url: refUrl, alias, type, preview }) => {
+    if (alias === undefined && type === undefined && !preview) {
+      throw new ValidationError("Nothing to update", { hint: "Set alias, type or preview" });
     }
+    let key = "";
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, (current) => {
+      key = requireReferenceKey(current.references, refUrl);
+      const entry = referenceEntry(alias, type);
+      const changes: Record<string, any> = { references: { [key]: entry } };
+      if (preview) {
+        const first = listReferences(current.references)[0];
+        if (first.key !== key) entry.previewPriority = hintBetween(undefined, first.previewPriority);
+        changes.previewType = "reference";
+      }
+      return changes;
+    });
+    return JSON.stringify({ success: true, url: decodeReferenceKey(key), alias, type, preview: Boolean(preview) }, null, 2);
   },
 });
 
 // Tool: Delete reference
-mcp.addTool({
+addTool({
   name: "delete-reference",
   description: "Delete a reference (URL attachment) from a Planner task",
   parameters: z.object({
@@ -725,106 +1843,166 @@ mcp.addTool({
     url: z.string().describe("The URL of the reference to delete"),
   }),
   execute: async ({ taskId, url: refUrl }) => {
-    const etag = getETag("taskDetails", taskId);
-    const encodedUrl = encodeUrlForReference(refUrl);
-
-    const body = {
+    // Look the key up rather than re-encoding, so references added by Planner itself match too
+    await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, (current) => ({
       references: {
-        [encodedUrl]: null,
+        [requireReferenceKey(current.references, refUrl)]: null,
       },
-    };
-
-    const url = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-    try {
-      const result = azRestPatchWithEtag(url, etag, body);
-      return result || "Reference deleted successfully";
-    } catch (error: any) {
-      throw new Error(`Delete reference failed: ${error.message}`);
-    }
+    }));
+    return "Reference deleted successfully";
   },
 });
 
+// Helper to attach a drive item's link to a task as a reference
+async function attachLink(taskId: string, url: string, alias: string, type: string): Promise<void> {
+  await patchWithConcurrency(graph, `/planner/tasks/${taskId}/details`, {
+    references: { [encodeUrlForReference(url)]: referenceEntry(alias, type) },
+  });
+}
+
+// Sharing options shared by upload-attachment and attach-drive-item
+const linkParams = {
+  linkScope: z.enum(LINK_SCOPES).optional().default("organization")
+    .describe("Sharing link scope: organization, users (specific people with existing access), anonymous (anyone with the link), or none (attach the file's own URL)"),
+  linkType: z.enum(LINK_TYPES).optional().default("view").describe("Whether the sharing link allows viewing or editing"),
+};
+
 // Tool: Upload file attachment to SharePoint and attach to task
-mcp.addTool({
+addTool({
   name: "upload-attachment",
-  description: "Upload a local file to the plan's SharePoint and attach it to a task (max 4MB)",
+  description: "Upload a local file to the plan's SharePoint and attach it to a task. Files over 4MB are uploaded in chunks through an upload session.",
   parameters: z.object({
     taskId: z.string().describe("The task ID"),
     filePath: z.string().describe("Local path to the file to upload"),
     alias: z.string().optional().describe("Display name for the attachment (defaults to filename)"),
+    folder: z.string().optional().default(DEFAULT_ATTACHMENT_FOLDER).describe("Folder in the group's document library (created if missing; use / for subfolders)"),
+    conflictBehavior: z.enum(CONFLICT_BEHAVIORS).optional().default("rename")
+      .describe("When a file with the same name exists: rename the new file, replace the old one, or fail"),
+    ...linkParams,
   }),
-  execute: async ({ taskId, filePath, alias }) => {
+  execute: async ({ taskId, filePath, alias, folder, conflictBehavior, linkScope, linkType }) => {
     // Read file
-    const fileBuffer = readFileSync(filePath);
+    const path = localPath(filePath, "filePath");
+    let fileBuffer: Buffer;
+    try {
+      fileBuffer = readFileSync(path);
+    } catch (error: any) {
+      throw new ValidationError(`Cannot read file: ${error.message}`, { filePath });
+    }
     const fileName = basename(filePath);
-    const fileSize = fileBuffer.length;
 
-    if (fileSize > 4 * 1024 * 1024) {
-      throw new Error("File too large. Maximum size is 4MB. For larger files, upload manually to SharePoint.");
-    }
+    // Upload into the document library of the group that owns the task's plan
+    const task = await graph.get(`/planner/tasks/${taskId}`);
+    const groupId = await getGroupIdFromPlan(task.planId);
+    const drive = await graph.get(`/groups/${groupId}/drive`);
+    const item = await uploadFile(graph, drive.id, folder, fileName, fileBuffer, conflictBehavior);
+
+    const url = await itemLink(graph, drive.id, item, linkScope, linkType);
+    await attachLink(taskId, url, alias || item.name, referenceTypeFor(item.name));
+
+    return JSON.stringify({
+      success: true,
+      fileName: item.name,
+      renamed: item.name !== fileName,
+      fileSize: item.size ?? fileBuffer.length,
+      uploadedInChunks: fileBuffer.length > SIMPLE_UPLOAD_LIMIT,
+      itemId: item.id,
+      sharePointUrl: url,
+      message: "File uploaded to SharePoint and attached to task",
+    });
+  },
+});
 
-    // Get task to find planId
-    const taskUrl = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`;
-    const task = JSON.parse(azRest("GET", taskUrl));
+// Tool: Attach an existing drive item to a task
+addTool({
+  name: "attach-drive-item",
+  description: "Attach a file that is already in SharePoint/OneDrive to a task, by path or item ID, without re-uploading it",
+  parameters: z.object({
+    taskId: z.string().describe("The task ID"),
+    path: z.string().optional().describe("Path from the drive root, e.g. 'Shared Documents/Specs/design.docx' → 'Specs/design.docx'"),
+    itemId: z.string().optional().describe("Drive item ID (instead of path)"),
+    driveId: z.string().optional().describe("Drive ID (default: the document library of the plan's group)"),
+    alias: z.string().optional().describe("Display name for the attachment (defaults to the file name)"),
+    ...linkParams,
+  }),
+  execute: async ({ taskId, path, itemId, driveId, alias, linkScope, linkType }) => {
+    if (!path === !itemId) {
+      throw new ValidationError("Provide exactly one of path or itemId");
+    }
+    let targetDriveId = driveId;
+    if (!targetDriveId) {
+      const task = await graph.get(`/planner/tasks/${taskId}`);
+      const groupId = await getGroupIdFromPlan(task.planId);
+      targetDriveId = (await graph.get(`/groups/${groupId}/drive`)).id as string;
+    }
+    const item = await getDriveItem(graph, targetDriveId, { itemId, path });
+    if (item.folder) {
+      throw new ValidationError(`"${item.name}" is a folder`, { hint: "Attach a file, or use add-reference with the folder's URL" });
+    }
 
-    // Get groupId from plan
-    const groupId = getGroupIdFromPlan(task.planId);
+    const url = await itemLink(graph, targetDriveId, item, linkScope, linkType);
+    await attachLink(taskId, url, alias || item.name, referenceTypeFor(item.name));
+    return JSON.stringify({ success: true, fileName: item.name, itemId: item.id, url });
+  },
+});
 
-    // Get the group's drive (SharePoint document library)
-    const driveUrl = `https://graph.microsoft.com/v1.0/groups/${groupId}/drive`;
-    const drive = JSON.parse(azRest("GET", driveUrl));
-    const driveId = drive.id;
+// Resource: Plans
+mcp.addResource({
+  uri: PLANS_URI,
+  name: "Planner plans",
+  description: "Plans accessible to the current user (same as list-plans in compact format)",
+  mimeType: "application/json",
+  load: (session) => asSession(session, async () => {
+    const plans = await graph.listAll("/me/planner/plans");
+    return { text: serialize(plans.map(compactPlan), "compact") };
+  }),
+});
 
-    // Upload file to SharePoint (root of document library, in a "Planner Attachments" folder)
-    const folderPath = "Planner Attachments";
-    const uploadUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/items/root:/${folderPath}/${fileName}:/content`;
+// Resource template: A plan's buckets, in board order
+mcp.addResourceTemplate({
+  uriTemplate: bucketsUri("{planId}"),
+  name: "Plan buckets",
+  description: "A plan's buckets in board order",
+  mimeType: "application/json",
+  arguments: [{ name: "planId", description: "The Planner plan ID", required: true }],
+  load: ({ planId }, session) => asSession(session, async () => {
+    const buckets = [...(await getPlanBuckets(planId))].sort(byOrderHint);
+    for (const bucket of buckets) subscriptions.remember(bucket.id, planId);
+    return { text: serialize(buckets.map(compactBucket), "compact") };
+  }),
+});
 
-    // Write file to temp location for az rest to read
-    const tmpFile = join(tmpdir(), `mcp-upload-${randomUUID()}-${fileName}`);
-    try {
-      writeFileSync(tmpFile, fileBuffer);
-
-      // Upload using az rest with binary file
-      const args = [
-        `az rest --method PUT --url "${uploadUrl}"`,
-        `--headers "Content-Type=application/octet-stream"`,
-        `--body @${tmpFile}`,
-      ];
-      const uploadResult = JSON.parse(execSync(args.join(" "), { encoding: "utf-8", maxBuffer: 10 * 1024 * 1024 }));
-      const fileId = uploadResult.id;
-
-      // Create a sharing link for the file (cleaner URL than webUrl)
-      const shareLinkUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/items/${fileId}/createLink`;
-      const shareLinkBody = { type: "view", scope: "organization" };
-      const shareLinkResult = JSON.parse(azRest("POST", shareLinkUrl, shareLinkBody));
-      const fileWebUrl = shareLinkResult.link.webUrl;
-
-      // Add reference to task
-      const etag = getETag("taskDetails", taskId);
-      const encodedUrl = encodeUrlForReference(fileWebUrl);
-      const referenceData: Record<string, any> = {
-        "@odata.type": "#microsoft.graph.plannerExternalReference",
-        alias: alias || fileName,
-      };
-      const refBody = {
-        references: {
-          [encodedUrl]: referenceData,
-        },
-      };
-      const detailsUrl = `https://graph.microsoft.com/v1.0/planner/tasks/${taskId}/details`;
-      azRestPatchWithEtag(detailsUrl, etag, refBody);
-
-      return JSON.stringify({
-        success: true,
-        fileName,
-        fileSize,
-        sharePointUrl: fileWebUrl,
-        message: "File uploaded to SharePoint and attached to task",
-      });
-    } finally {
-      try { unlinkSync(tmpFile); } catch {}
+// Resource template: A plan with its tasks
+mcp.addResourceTemplate({
+  uriTemplate: planUri("{planId}"),
+  name: "Plan with tasks",
+  description: "A plan and all its tasks, with bucket, assignee and label names resolved (same as list-tasks in compact format)",
+  mimeType: "application/json",
+  arguments: [{ name: "planId", description: "The Planner plan ID", required: true }],
+  load: ({ planId }, session) => asSession(session, async () => {
+    const [plan, tasks] = await Promise.all([graph.get(`/planner/plans/${planId}`), graph.listAll(`/planner/plans/${planId}/tasks`)]);
+    for (const task of tasks) {
+      subscriptions.remember(task.id, planId);
+      subscriptions.remember(task.bucketId, planId);
     }
-  },
+    return { text: serialize({ ...compactPlan(plan), tasks: await taskListRenderer.compact(tasks) }, "compact") };
+  }),
+});
+
+// Resource template: A task with its details
+mcp.addResourceTemplate({
+  uriTemplate: taskUri("{taskId}"),
+  name: "Planner task",
+  description: "A task with its description, checklist and references (get-task and get-task-details in compact format)",
+  mimeType: "application/json",
+  arguments: [{ name: "taskId", description: "The task ID", required: true }],
+  load: ({ taskId }, session) => asSession(session, async () => {
+    const [task, details] = await Promise.all([graph.get(`/planner/tasks/${taskId}`), graph.get(`/planner/tasks/${taskId}/details`)]);
+    subscriptions.remember(taskId, task.planId);
+    const ctx = await loadPlanContext(task.planId);
+    const { id, ...rest } = compactTaskDetails(details);
+    return { text: serialize({ ...compactTask(task, ctx), ...rest }, "compact") };
+  }),
 });
 
-mcp.start({ transportType: "stdio" });
+mcp.start();
@@ -0,0 +1,71 @@
+import { ValidationError } from "./errors.js";
+
+export interface GroupMember {
+  id: string;
+  displayName?: string;
+  userPrincipalName?: string;
+  mail?: string;
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Outcome of matching one user reference (ID, UPN/email or display name) against group members
+type Match =
+  | { status: "resolved"; member: GroupMember }
+  | { status: "ambiguous"; candidates: GroupMember[] }
+  | { status: "unresolved" };
+
+// Matches in order of confidence: exact ID, UPN or mail, exact display name, then a display name
+// that has the reference as whole words ("Joe" or "Smith" → "Joe Smith", but not "Jo"). A tier
+// with several hits is ambiguous rather than guessed.
+export function matchMember(members: GroupMember[], ref: string): Match {
+  const needle = ref.trim().toLowerCase();
+  const byId = members.find((m) => m.id.toLowerCase() === needle);
+  if (byId) return { status: "resolved", member: byId };
+  // Graph user IDs outside the member list (e.g. guests) are passed through as given
+  if (GUID_PATTERN.test(needle)) return { status: "resolved", member: { id: ref.trim() } };
+
+  const tiers: ((m: GroupMember) => boolean)[] = [
+    (m) => m.userPrincipalName?.toLowerCase() === needle || m.mail?.toLowerCase() === needle,
+    (m) => m.displayName?.toLowerCase() === needle,
+    (m) => hasWords(m.displayName?.toLowerCase() ?? "", needle),
+  ];
+  for (const tier of tiers) {
+    const hits = members.filter(tier);
+    if (hits.length === 1) return { status: "resolved", member: hits[0] };
+    if (hits.length > 1) return { status: "ambiguous", candidates: hits };
+  }
+  return { status: "unresolved" };
+}
+
+// Helper to check whether the words of needle appear together, whole, in name
+function hasWords(name: string, needle: string): boolean {
+  const words = name.split(/\s+/).filter(Boolean);
+  const wanted = needle.split(/\s+/).filter(Boolean);
+  if (wanted.length === 0) return false;
+  for (let start = 0; start + wanted.length <= words.length; start++) {
+    if (wanted.every((word, i) => words[start + i] === word)) return true;
+  }
+  return false;
+}
+
+// Resolves every reference or throws a ValidationError listing the ambiguous and unknown ones
+export function resolveMembers(members: GroupMember[], refs: string[]): GroupMember[] {
+  const resolved: GroupMember[] = [];
+  const ambiguous: { ref: string; candidates: GroupMember[] }[] = [];
+  const unresolved: string[] = [];
+  for (const ref of refs) {
+    const match = matchMember(members, ref);
+    if (match.status === "resolved") resolved.push(match.member);
+    else if (match.status === "ambiguous") ambiguous.push({ ref, candidates: match.candidates });
+    else unresolved.push(ref);
+  }
+  if (ambiguous.length > 0 || unresolved.length > 0) {
+    throw new ValidationError("Could not resolve every user to a single group member", {
+      hint: "Use the user ID or userPrincipalName from list-group-members",
+      ambiguous,
+      unresolved,
+    });
+  }
+  return resolved;
+}
@@ -0,0 +1,50 @@
+// Planner sorts checklist items, buckets and tasks by ordinal comparison of their orderHint
+// strings. Graph computes a hint when sent "<before> <after>!", but that only works for one item
+// at a time; these helpers compute hints client-side so a whole sequence can go in one PATCH.
+// Hints are built from the printable characters Planner accepts (space to tilde).
+
+const MIN = 32;
+const MAX = 126;
+const BASE = MAX - MIN + 1;
+
+function digit(char: string | undefined): number {
+  return char === undefined ? 0 : char.charCodeAt(0) - MIN;
+}
+
+function char(value: number): string {
+  return String.fromCharCode(value + MIN);
+}
+
+// Fractional midpoint of two hints read as base-95 fractions ("" is 0, undefined is 1)
+function midpoint(before: string, after: string | undefined): string {
+  if (after !== undefined) {
+    // Keep the shared prefix and split the rest
+    let n = 0;
+    while (n < after.length && (before[n] ?? char(0)) === after[n]) n++;
+    if (n > 0) return after.slice(0, n) + midpoint(before.slice(n), after.slice(n));
+  }
+  const low = digit(before[0]);
+  const high = after !== undefined ? digit(after[0]) : BASE;
+  if (high - low > 1) return char(Math.floor((low + high) / 2));
+  // Adjacent digits: a shorter key still fits below "after", otherwise go one level deeper
+  if (after !== undefined && after.length > 1) return after.slice(0, 1);
+  return char(low) + midpoint(before.slice(1), undefined);
+}
+
+// A hint that sorts strictly between before and after (either may be omitted for the ends).
+// Falls back to Graph's own "<before> <after>!" form if the neighbours can't be split locally.
+export function hintBetween(before?: string, after?: string): string {
+  const hint = midpoint(before ?? "", after);
+  if ((before === undefined || hint > before) && (after === undefined || hint < after) && !hint.endsWith(" ")) {
+    return hint;
+  }
+  return `${before ?? ""} ${after ?? ""}!`;
+}
+
+// count ascending hints between before and after, spread out so later inserts stay short
+export function hintsBetween(before: string | undefined, after: string | undefined, count: number): string[] {
+  if (count <= 0) return [];
+  const middle = Math.floor(count / 2);
+  const hint = hintBetween(before, after);
+  return [...hintsBetween(before, hint, middle), hint, ...hintsBetween(hint, after, count - middle - 1)];
+}
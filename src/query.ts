@@ -0,0 +1,187 @@
+import { GroupMember } from "./members.js";
+import { CATEGORY_KEYS } from "./categories.js";
+
+// Lookups for one plan, used to filter by and render names instead of IDs
+export interface PlanContext {
+  // bucket ID → name
+  buckets: Map<string, string>;
+  // category key → label (null when unnamed)
+  categoryLabels: Record<string, string | null>;
+  // user ID → member
+  members: Map<string, GroupMember>;
+}
+
+export const PRIORITY_NAMES = ["urgent", "important", "medium", "low"] as const;
+
+export type PriorityName = (typeof PRIORITY_NAMES)[number];
+
+export const TASK_STATUSES = ["notStarted", "inProgress", "completed", "open"] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export interface TaskFilter {
+  // Bucket names or IDs (any of)
+  buckets?: string[];
+  // Resolved user IDs (any of)
+  assigneeIds?: string[];
+  unassigned?: boolean;
+  // Category keys or labels (any of)
+  categories?: string[];
+  status?: TaskStatus;
+  dueBefore?: string;
+  dueAfter?: string;
+  overdue?: boolean;
+  priority?: PriorityName;
+  titleContains?: string;
+}
+
+export const SORT_FIELDS = ["dueDateTime", "startDateTime", "priority", "title", "createdDateTime", "percentComplete", "bucket"] as const;
+
+export type SortField = (typeof SORT_FIELDS)[number];
+
+// Fields a query can project; names (bucket, assignees, categories) are resolved from the plan context
+export const TASK_FIELDS = [
+  "id",
+  "title",
+  "planId",
+  "bucketId",
+  "bucket",
+  "assigneeIds",
+  "assignees",
+  "categoryKeys",
+  "categories",
+  "status",
+  "percentComplete",
+  "priority",
+  "startDateTime",
+  "dueDateTime",
+  "createdDateTime",
+  "completedDateTime",
+  "orderHint",
+  "checklistItemCount",
+  "activeChecklistItemCount",
+  "referenceCount",
+  "hasDescription",
+] as const;
+
+export type TaskField = (typeof TASK_FIELDS)[number];
+
+export const DEFAULT_TASK_FIELDS: TaskField[] = ["id", "title", "bucket", "assignees", "status", "priority", "dueDateTime", "categories"];
+
+// Planner's four priority levels over the 0-10 scale
+export function priorityName(priority: number | undefined): PriorityName {
+  const value = priority ?? 5;
+  if (value <= 1) return "urgent";
+  if (value <= 4) return "important";
+  if (value <= 7) return "medium";
+  return "low";
+}
+
+export function taskStatus(task: any): Exclude<TaskStatus, "open"> {
+  if (task.percentComplete === 100) return "completed";
+  if (task.percentComplete > 0) return "inProgress";
+  return "notStarted";
+}
+
+// A bare YYYY-MM-DD bound covers the whole day: "before" means before its start,
+// "after" means after its end
+function boundary(value: string, end: boolean): number {
+  if (value.includes("T")) return Date.parse(value);
+  return Date.parse(`${value}T${end ? "23:59:59.999" : "00:00:00"}Z`);
+}
+
+export function matchesFilter(task: any, filter: TaskFilter, ctx: PlanContext, now = Date.now()): boolean {
+  if (filter.buckets?.length) {
+    const bucketName = ctx.buckets.get(task.bucketId)?.toLowerCase();
+    const hit = filter.buckets.some((b) => b === task.bucketId || b.trim().toLowerCase() === bucketName);
+    if (!hit) return false;
+  }
+
+  const assigneeIds = Object.keys(task.assignments ?? {});
+  if (filter.unassigned && assigneeIds.length > 0) return false;
+  if (filter.assigneeIds?.length && !filter.assigneeIds.some((id) => assigneeIds.includes(id))) return false;
+
+  if (filter.categories?.length) {
+    const applied = appliedCategoryKeys(task);
+    const hit = filter.categories.some((ref) => {
+      const needle = ref.trim().toLowerCase();
+      return applied.some((key) => key === ref || ctx.categoryLabels[key]?.trim().toLowerCase() === needle);
+    });
+    if (!hit) return false;
+  }
+
+  const status = taskStatus(task);
+  if (filter.status === "open" ? status === "completed" : filter.status && status !== filter.status) return false;
+
+  const due = task.dueDateTime ? Date.parse(task.dueDateTime) : undefined;
+  if (filter.dueBefore && (due === undefined || due >= boundary(filter.dueBefore, false))) return false;
+  if (filter.dueAfter && (due === undefined || due <= boundary(filter.dueAfter, true))) return false;
+  if (filter.overdue && (due === undefined || due >= now || status === "completed")) return false;
+
+  if (filter.priority && priorityName(task.priority) !== filter.priority) return false;
+  if (filter.titleContains && !String(task.title ?? "").toLowerCase().includes(filter.titleContains.toLowerCase())) return false;
+
+  return true;
+}
+
+export function appliedCategoryKeys(task: any): string[] {
+  return CATEGORY_KEYS.filter((key) => task.appliedCategories?.[key]);
+}
+
+// Sorts in place; tasks missing the sort value go last regardless of order
+export function sortTasks(tasks: any[], sortBy: SortField, descending: boolean, contextFor: (task: any) => PlanContext): any[] {
+  const value = (task: any): string | number | undefined => {
+    switch (sortBy) {
+      case "bucket":
+        return contextFor(task).buckets.get(task.bucketId);
+      case "title":
+        return task.title?.toLowerCase();
+      case "priority":
+      case "percentComplete":
+        return task[sortBy];
+      default:
+        return task[sortBy] ? Date.parse(task[sortBy]) : undefined;
+    }
+  };
+  return tasks.sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === undefined || vb === undefined) {
+      return va === vb ? 0 : va === undefined ? 1 : -1;
+    }
+    const order = va < vb ? -1 : va > vb ? 1 : 0;
+    return descending ? -order : order;
+  });
+}
+
+export function projectTask(task: any, fields: readonly TaskField[], ctx: PlanContext): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    switch (field) {
+      case "bucket":
+        result.bucket = ctx.buckets.get(task.bucketId) ?? task.bucketId;
+        break;
+      case "assigneeIds":
+        result.assigneeIds = Object.keys(task.assignments ?? {});
+        break;
+      case "assignees":
+        result.assignees = Object.keys(task.assignments ?? {}).map((id) => ctx.members.get(id)?.displayName ?? id);
+        break;
+      case "categoryKeys":
+        result.categoryKeys = appliedCategoryKeys(task);
+        break;
+      case "categories":
+        result.categories = appliedCategoryKeys(task).map((key) => ctx.categoryLabels[key] ?? key);
+        break;
+      case "status":
+        result.status = taskStatus(task);
+        break;
+      case "hasDescription":
+        result.hasDescription = Boolean(task.hasDescription);
+        break;
+      default:
+        result[field] = task[field] ?? null;
+    }
+  }
+  return result;
+}
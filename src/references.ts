@@ -0,0 +1,130 @@
+import { byOrderHint } from "./format.js";
+import { NotFoundError } from "./errors.js";
+
+// Helper to encode URL for reference keys (Graph API requires specific encoding)
+// Per Microsoft docs: encode colons and dots, but NOT forward slashes
+// Example: https://github.com → https%3A//github%2Ecom
+// Percent signs are encoded first so keys decode back to exactly the URL that went in
+export function encodeUrlForReference(url: string): string {
+  return url
+    .replace(/%/g, "%25")     // Encode percent signs (must come first)
+    .replace(/:/g, "%3A")     // Encode colons
+    .replace(/\./g, "%2E")    // Encode dots
+    .replace(/ /g, "%20")     // Encode spaces
+    .replace(/#/g, "%23")     // Encode hash
+    .replace(/\?/g, "%3F")    // Encode question mark
+    .replace(/&/g, "%26")     // Encode ampersand
+    .replace(/=/g, "%3D");    // Encode equals
+}
+
+// Turns a reference key from task details back into the real URL
+export function decodeReferenceKey(key: string): string {
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    // Malformed escapes: undo only what encodeUrlForReference produces
+    return key
+      .replace(/%3A/gi, ":")
+      .replace(/%2E/gi, ".")
+      .replace(/%20/g, " ")
+      .replace(/%23/g, "#")
+      .replace(/%3F/gi, "?")
+      .replace(/%26/g, "&")
+      .replace(/%3D/gi, "=")
+      .replace(/%25/g, "%");
+  }
+}
+
+// Older versions of this server didn't escape percent signs, so a URL that already held escapes
+// ("a%20b") was stored with them as they were. Every %25 in a current key comes from a percent sign.
+function legacyReferenceKey(url: string): string {
+  return encodeUrlForReference(url).replace(/%25/g, "%");
+}
+
+// The key a URL is stored under in a task's references. Keys added by Planner itself or by older
+// versions of this server may be encoded differently, so besides the current encoding, the older
+// one is tried and then existing keys are matched on their decoded URL.
+export function referenceKeyFor(references: Record<string, any> | undefined, url: string): string | undefined {
+  const keys = Object.keys(references ?? {});
+  const candidates = [encodeUrlForReference(url), legacyReferenceKey(url)];
+  for (const candidate of candidates) {
+    if (keys.includes(candidate)) return candidate;
+  }
+  return keys.find((key) => decodeReferenceKey(key) === url);
+}
+
+// Like referenceKeyFor, but the reference must exist
+export function requireReferenceKey(references: Record<string, any> | undefined, url: string): string {
+  const key = referenceKeyFor(references, url);
+  if (key === undefined) {
+    throw new NotFoundError(`No reference to ${url} on this task`, {
+      references: Object.keys(references ?? {}).map(decodeReferenceKey),
+    });
+  }
+  return key;
+}
+
+export interface GitHubLink {
+  kind: "pullRequest" | "issue" | "commit";
+  owner: string;
+  repo: string;
+  number?: number;
+  sha?: string;
+  // Short name in GitHub's own notation: org/repo#123 or org/repo@abc1234
+  alias: string;
+}
+
+const GITHUB_PATH = /^\/([\w.-]+)\/([\w.-]+)\/(pull|issues|commit)\/([0-9a-f]+)(?:[/?#]|$)/i;
+
+// Recognises GitHub pull request, issue and commit URLs (including links to a PR's files or a comment)
+export function parseGitHubUrl(url: string): GitHubLink | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (!/^(www\.)?github\.com$/i.test(parsed.hostname)) return undefined;
+  const match = parsed.pathname.match(GITHUB_PATH);
+  if (!match) return undefined;
+  const [, owner, repo, section, id] = match;
+  const name = `${owner}/${repo.replace(/\.git$/i, "")}`;
+  if (section.toLowerCase() === "commit") {
+    if (!/^[0-9a-f]{7,40}$/i.test(id)) return undefined;
+    return { kind: "commit", owner, repo, sha: id, alias: `${name}@${id.slice(0, 7)}` };
+  }
+  if (!/^\d+$/.test(id)) return undefined;
+  const kind = section.toLowerCase() === "pull" ? "pullRequest" : "issue";
+  return { kind, owner, repo, number: Number(id), alias: `${name}#${id}` };
+}
+
+// The alias to store for a URL: the one given, or a GitHub short name when the URL is recognised
+export function referenceAlias(url: string, alias?: string): string | undefined {
+  return alias || parseGitHubUrl(url)?.alias;
+}
+
+export interface TaskReference {
+  url: string;
+  key: string;
+  alias?: string;
+  type?: string;
+  previewPriority?: string;
+  lastModifiedDateTime?: string;
+  github?: GitHubLink;
+}
+
+// A task's references with decoded URLs, in preview priority order (the first is the one Planner
+// shows on the card when the preview type is "reference")
+export function listReferences(references: Record<string, any> | undefined): TaskReference[] {
+  return Object.entries(references ?? {})
+    .filter(([, ref]) => ref)
+    .map(([key, ref]: [string, any]) => {
+      const url = decodeReferenceKey(key);
+      const entry: TaskReference = { url, key, alias: ref.alias, type: ref.type, previewPriority: ref.previewPriority };
+      if (ref.lastModifiedDateTime) entry.lastModifiedDateTime = ref.lastModifiedDateTime;
+      const github = parseGitHubUrl(url);
+      if (github) entry.github = github;
+      return entry;
+    })
+    .sort((a, b) => byOrderHint({ orderHint: a.previewPriority }, { orderHint: b.previewPriority }));
+}
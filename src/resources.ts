@@ -0,0 +1,149 @@
+import type { FastMCP, FastMCPSession, Logger } from "fastmcp";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { beforeSessionConnect } from "./hooks.js";
+import { currentSession, sessionOwner } from "./session.js";
+
+// URIs of the MCP resources the server exposes
+export const PLANS_URI = "planner://plans";
+
+export function planUri(planId: string): string {
+  return `planner://plans/${planId}`;
+}
+
+export function bucketsUri(planId: string): string {
+  return `planner://plans/${planId}/buckets`;
+}
+
+export function taskUri(taskId: string): string {
+  return `planner://tasks/${taskId}`;
+}
+
+// Looks up the plan of a task or bucket the server hasn't read yet
+export type PlanLookup = (collection: "tasks" | "buckets", id: string) => Promise<string | undefined>;
+
+// Tasks and buckets whose plan is remembered; the least recently seen are dropped beyond this
+export const PLAN_MEMORY_SIZE = 10000;
+
+// Tracks which resources each MCP session has subscribed to and sends
+// notifications/resources/updated when this server writes to the data behind them.
+// Changes made outside the server (in the Planner app, by other tools) aren't seen.
+// A write only notifies the writing user's own sessions: other users may not be able to see the
+// plan, and even its IDs and the timing of changes shouldn't reach them.
+export class ResourceSubscriptions {
+  private readonly sessions = new Map<FastMCPSession<any>, Set<string>>();
+  // Plan of each task and bucket the server has read, so a write to a task or bucket
+  // can also notify the plan-level resources that show it. Oldest first.
+  private readonly plans = new Map<string, string>();
+
+  constructor(private readonly lookupPlan?: PlanLookup) {}
+
+  // Advertises resources.subscribe and handles subscriptions on every session of mcp. Where the
+  // connect hook isn't available, subscriptions still work for clients that don't check capabilities.
+  install(mcp: FastMCP<any>, logger: Logger = console): void {
+    const hooked = beforeSessionConnect((session) => {
+      session.server.registerCapabilities({ resources: { subscribe: true } });
+      this.attach(session);
+      return () => this.detach(session);
+    }, logger);
+    if (!hooked) mcp.on("connect", ({ session }) => this.attach(session));
+    mcp.on("disconnect", ({ session }) => this.detach(session));
+  }
+
+  attach(session: FastMCPSession<any>): void {
+    const uris = new Set<string>();
+    this.sessions.set(session, uris);
+    session.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      uris.add(request.params.uri);
+      return {};
+    });
+    session.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      uris.delete(request.params.uri);
+      this.forgetIfUnwatched();
+      return {};
+    });
+  }
+
+  detach(session: FastMCPSession<any>): void {
+    this.sessions.delete(session);
+    this.forgetIfUnwatched();
+  }
+
+  // Records that a task or bucket belongs to a plan
+  remember(id: string, planId: string): void {
+    this.plans.delete(id);
+    this.plans.set(id, planId);
+    if (this.plans.size > PLAN_MEMORY_SIZE) this.plans.delete(this.plans.keys().next().value!);
+  }
+
+  // GraphClient read listener: remembers the plan of every task and bucket in a response
+  graphRead(path: string, response: any): void {
+    if (this.sessions.size === 0) return;
+    for (const item of Array.isArray(response?.value) ? response.value : [response]) {
+      if (typeof item?.id === "string" && typeof item.planId === "string") this.remember(item.id, item.planId);
+    }
+  }
+
+  // Sends uri's update to the sessions of userId (undefined over stdio) that subscribe to it
+  notify(uri: string, userId: string | undefined): void {
+    for (const [session, uris] of this.sessions) {
+      if (uris.has(uri) && sessionOwner(session)?.userId === userId) {
+        session.server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  }
+
+  // GraphClient change listener: maps a successful write onto the resources it affects. Runs in
+  // the writer's session, which is who gets notified.
+  graphChanged(method: string, path: string, body?: unknown): void {
+    if (this.sessions.size === 0) return;
+    const [, collection, id, rest] = path.split("?")[0].match(/^\/planner\/(tasks|buckets|plans)(?:\/([^/]+))?(\/.*)?$/) ?? [];
+    if (!collection) return;
+    const writer = currentSession()?.userId;
+    const planId = id ? (collection === "plans" ? id : this.plans.get(id)) : (body as any)?.planId;
+
+    if (collection === "tasks" && id) this.notify(taskUri(id), writer);
+    // Creating, renaming or deleting a plan changes the plan list
+    if (collection === "plans" && !rest) this.notify(PLANS_URI, writer);
+    if (planId) {
+      this.notifyPlan(collection, planId, writer);
+    } else if (id && collection !== "plans" && this.lookupPlan && this.watching(`${PLANS_URI}/`)) {
+      // Written without being read first (a details PATCH, say): find the plan, then notify
+      this.lookupPlan(collection as "tasks" | "buckets", id).then((found) => {
+        if (!found) return;
+        this.remember(id, found);
+        this.notifyPlan(collection, found, writer);
+      }, () => undefined);
+    }
+
+    if (method === "DELETE" && id && !rest) this.forget(collection, id);
+  }
+
+  private notifyPlan(collection: string, planId: string, userId: string | undefined): void {
+    if (collection === "buckets") this.notify(bucketsUri(planId), userId);
+    this.notify(planUri(planId), userId);
+  }
+
+  // Drops what is remembered about a deleted task, bucket or plan
+  private forget(collection: string, id: string): void {
+    if (collection !== "plans") {
+      this.plans.delete(id);
+      return;
+    }
+    for (const [itemId, planId] of this.plans) {
+      if (planId === id) this.plans.delete(itemId);
+    }
+  }
+
+  // Once nobody subscribes to anything, nothing remembered is needed
+  private forgetIfUnwatched(): void {
+    if (!this.watching()) this.plans.clear();
+  }
+
+  // Whether any session subscribes to a URI starting with prefix
+  private watching(prefix = ""): boolean {
+    for (const uris of this.sessions.values()) {
+      for (const uri of uris) if (uri.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+}
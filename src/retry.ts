@@ -0,0 +1,68 @@
+// Retry policy for transient Graph failures (throttling, service unavailable, network blips)
+export interface RetryPolicy {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // Base for the exponential backoff (doubles per attempt before jitter)
+  baseDelayMs: number;
+  // Upper bound for a single computed backoff delay
+  maxDelayMs: number;
+  // Upper bound for all waiting across one request; a Retry-After beyond it fails fast
+  maxTotalWaitMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  maxTotalWaitMs: 120_000,
+};
+
+// Reads overrides from GRAPH_MAX_RETRIES, GRAPH_RETRY_BASE_DELAY_MS, GRAPH_RETRY_MAX_DELAY_MS
+// and GRAPH_RETRY_MAX_TOTAL_WAIT_MS; unset or invalid values keep the defaults
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  const read = (name: string, fallback: number): number => {
+    const value = Number(env[name]);
+    return env[name] !== undefined && env[name] !== "" && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    maxRetries: Math.floor(read("GRAPH_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries)),
+    baseDelayMs: read("GRAPH_RETRY_BASE_DELAY_MS", DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: read("GRAPH_RETRY_MAX_DELAY_MS", DEFAULT_RETRY_POLICY.maxDelayMs),
+    maxTotalWaitMs: read("GRAPH_RETRY_MAX_TOTAL_WAIT_MS", DEFAULT_RETRY_POLICY.maxTotalWaitMs),
+  };
+}
+
+// 429 and 503 mean the request was not processed, so any method may retry. Other gateway
+// errors may have been applied server-side, so POST (not idempotent) does not retry on them.
+export function isRetryableStatus(status: number, method: string): boolean {
+  if (status === 429 || status === 503) return true;
+  if (status === 500 || status === 502 || status === 504) return method.toUpperCase() !== "POST";
+  return false;
+}
+
+// Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - now);
+  return undefined;
+}
+
+// Delay before retry number `attempt` (0-based): the server's Retry-After when given,
+// otherwise "full jitter" exponential backoff capped at maxDelayMs
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,195 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { IncomingMessage } from "http";
+import type { FastMCPSession, Logger } from "fastmcp";
+import { CredentialProvider, GraphClient } from "./graph.js";
+import { ForbiddenError, PlannerError } from "./errors.js";
+
+// Per-session state for the HTTP transport: the caller's Graph token and a cache that no other
+// session can see. Over stdio there is no session and the process-wide credential and cache apply.
+export type PlannerSession = {
+  token: string;
+  userId: string;
+  userPrincipalName: string;
+  cache: Map<string, CacheEntry>;
+};
+
+export interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+const storage = new AsyncLocalStorage<PlannerSession>();
+
+// Used when no session is active (stdio)
+const processCache = new Map<string, CacheEntry>();
+
+// Caches of the live HTTP sessions, so a write by one session drops stale entries in all of them.
+// Held weakly: a session's cache goes away with the session.
+const sessionCaches = new Set<WeakRef<Map<string, CacheEntry>>>();
+
+// How long cached lookups live; PLANNER_CACHE_TTL_SECONDS overrides, 0 turns caching off
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+export function cacheTtlFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const seconds = Number(env.PLANNER_CACHE_TTL_SECONDS);
+  return (env.PLANNER_CACHE_TTL_SECONDS && Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+}
+
+const cacheTtlMs = cacheTtlFromEnv();
+
+export function currentSession(): PlannerSession | undefined {
+  return storage.getStore();
+}
+
+// Runs fn with session as the current session (a no-op wrapper when session is undefined)
+export function runInSession<T>(session: PlannerSession | undefined, fn: () => T): T {
+  return session ? storage.run(session, fn) : fn();
+}
+
+// The cache for the current session, or the process-wide one outside a session
+export function sessionCache(): Map<string, CacheEntry> {
+  return currentSession()?.cache ?? processCache;
+}
+
+// Memoizes load() under key in the current session's cache until the TTL runs out. The pending
+// promise is stored, so concurrent callers share one Graph request; failures aren't kept.
+// Callers share the cached value, so they must not modify it.
+export function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const cache = sessionCache();
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.value as Promise<T>;
+  const value = load();
+  if (cacheTtlMs > 0) {
+    const stored: CacheEntry = { value, expiresAt: Date.now() + cacheTtlMs };
+    cache.set(key, stored);
+    value.catch(() => {
+      if (cache.get(key) === stored) cache.delete(key);
+    });
+  }
+  return value;
+}
+
+// Drops the given cache entries from every session's cache and the process-wide one, since the
+// data is shared. A key ending in ":" drops every entry under that prefix ("buckets:" drops the
+// bucket lists of all plans).
+export function invalidate(...keys: string[]): void {
+  const caches = [processCache];
+  for (const ref of sessionCaches) {
+    const cache = ref.deref();
+    if (cache) caches.push(cache);
+    else sessionCaches.delete(ref);
+  }
+  for (const cache of caches) {
+    for (const key of [...cache.keys()]) {
+      if (keys.some((k) => (k.endsWith(":") ? key.startsWith(k) : key === k))) cache.delete(key);
+    }
+  }
+}
+
+// Empties the current session's cache; returns how many entries were dropped
+export function clearCache(): number {
+  const cache = sessionCache();
+  const count = cache.size;
+  cache.clear();
+  return count;
+}
+
+// Hands Graph the current session's token, falling back to the given credential outside a session
+export class SessionCredential implements CredentialProvider {
+  constructor(private readonly fallback: CredentialProvider) {}
+
+  async getToken(): Promise<string> {
+    return currentSession()?.token ?? this.fallback.getToken();
+  }
+}
+
+function bearerToken(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const header = headers.authorization;
+  const match = typeof header === "string" ? header.match(/^Bearer\s+(\S+)\s*$/i) : null;
+  return match?.[1];
+}
+
+// Looks up who a token belongs to
+function whoAmI(graph: GraphClient, token: string): Promise<{ id: string; userPrincipalName: string }> {
+  const probe: PlannerSession = { token, userId: "", userPrincipalName: "", cache: new Map() };
+  return runInSession(probe, () => graph.get("/me?$select=id,userPrincipalName"));
+}
+
+// Session authenticated from each HTTP request, keyed by the request's headers object. The
+// transport passes that same object along with the request's messages, which is how
+// trackRequestTokens learns whose FastMCP session it is watching.
+const requestSessions = new WeakMap<object, PlannerSession>();
+
+// The PlannerSession behind each FastMCP session, once its first request has been seen
+const sessionOwners = new WeakMap<FastMCPSession<any>, PlannerSession>();
+
+// Who a FastMCP session belongs to; undefined over stdio, or before the session's first request
+export function sessionOwner(session: FastMCPSession<any>): PlannerSession | undefined {
+  return sessionOwners.get(session);
+}
+
+// FastMCP authenticate hook. Each HTTP session must send `Authorization: Bearer <Graph token>`;
+// the token is checked against /me before the session is created. FastMCP also calls the hook
+// without a request for stdio, where there is nothing to authenticate.
+// Thrown messages start with "Unauthorized" so the transport answers 401 rather than 500.
+export async function authenticateSession(graph: GraphClient, request: IncomingMessage | undefined): Promise<PlannerSession | undefined> {
+  if (!request) return undefined;
+  const token = bearerToken(request.headers);
+  if (!token) {
+    throw new Error("Unauthorized: send a Microsoft Graph access token as 'Authorization: Bearer <token>'");
+  }
+
+  let me: { id: string; userPrincipalName: string };
+  try {
+    me = await whoAmI(graph, token);
+  } catch (error) {
+    const reason = error instanceof PlannerError ? error.detail : String(error);
+    throw new Error(`Unauthorized: the bearer token was rejected by Microsoft Graph (${reason})`);
+  }
+  const cache = new Map<string, CacheEntry>();
+  sessionCaches.add(new WeakRef(cache));
+  const session: PlannerSession = { token, userId: me.id, userPrincipalName: me.userPrincipalName, cache };
+  requestSessions.set(request.headers, session);
+  return session;
+}
+
+// Bearer token of the HTTP request being handled
+const requestTokens = new AsyncLocalStorage<string | undefined>();
+
+// In FastMCP's default stateful mode the authenticate hook only runs when a session starts, and
+// the Authorization header of later requests never reaches the tools. Wrapping the session's
+// transport (its onmessage callback, part of the SDK's Transport interface) keeps each request's
+// bearer token in scope while the request is handled, so refreshSessionToken can pick up a renewed
+// token. It also records whose session it is, for sessionOwner. Call it once the session is
+// connected. Returns false, after logging why, when there is no connected transport to wrap: that
+// session keeps its first token until it expires and gets no resource notifications.
+export function trackRequestTokens(session: FastMCPSession<any>, logger: Logger = console): boolean {
+  const transport = session.server.transport;
+  const onmessage = transport?.onmessage;
+  if (!transport || !onmessage) {
+    logger.warn("[microsoft-planner-mcp] Cannot watch this session's requests for renewed bearer tokens; it keeps its first token until that expires");
+    return false;
+  }
+  transport.onmessage = (message, extra) => {
+    const owner = extra?.requestInfo && requestSessions.get(extra.requestInfo.headers);
+    if (owner && !sessionOwners.has(session)) sessionOwners.set(session, owner);
+    const token = extra?.requestInfo ? bearerToken(extra.requestInfo.headers) : undefined;
+    requestTokens.run(token, () => onmessage.call(transport, message, extra));
+  };
+  return true;
+}
+
+// Moves the session onto the token sent with the current request when it differs from the one in
+// use, once Graph confirms it belongs to the same user. A request without a token keeps using the
+// session's token: the session ID alone is enough to act as that user.
+export async function refreshSessionToken(graph: GraphClient, session: PlannerSession | undefined): Promise<void> {
+  const token = requestTokens.getStore();
+  if (!session || !token || token === session.token) return;
+  const me = await whoAmI(graph, token);
+  if (me.id !== session.userId) {
+    throw new ForbiddenError(`The bearer token belongs to ${me.userPrincipalName}, not to this session's user ${session.userPrincipalName}`, {
+      hint: "Start a new session to work as a different user",
+    });
+  }
+  session.token = token;
+}
@@ -0,0 +1,419 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { GraphClient } from "./graph.js";
+import { PlannerError, ValidationError } from "./errors.js";
+import { patchWithConcurrency } from "./concurrency.js";
+import { resolveCategories } from "./categories.js";
+import { resolveMembers } from "./members.js";
+import { PRIORITY_NAMES, PlanContext, appliedCategoryKeys } from "./query.js";
+import { assignmentEntry, buildTaskFields, createTaskWithDetails, normalizeDateTime } from "./tasks.js";
+import { orderedChecklist, orderedChecklistEntries } from "./checklist.js";
+import { hintsBetween } from "./orderhints.js";
+
+const checklistItemSchema = z.union([
+  z.string(),
+  z.object({ title: z.string(), checked: z.boolean().optional() }),
+]);
+
+const manifestTaskSchema = z.object({
+  key: z.string().min(1),
+  title: z.string().min(1),
+  assignees: z.array(z.string()).optional(),
+  labels: z.array(z.string()).optional(),
+  startDate: z.string().optional(),
+  dueDate: z.string().optional(),
+  priority: z.union([z.number().int().min(0).max(10), z.enum(PRIORITY_NAMES)]).optional(),
+  percentComplete: z.number().min(0).max(100).optional(),
+  description: z.string().optional(),
+  checklist: z.array(checklistItemSchema).optional(),
+});
+
+// Manifest shape: buckets in board order, each with the tasks it should hold. Fields left out of a
+// task are not managed, so edits made in Planner to those fields survive a sync.
+export const manifestSchema = z.object({
+  buckets: z.array(z.object({
+    name: z.string().min(1),
+    tasks: z.array(manifestTaskSchema).optional().default([]),
+  })),
+  // Delete tasks that carry a sync key but are no longer in the manifest
+  prune: z.boolean().optional().default(false),
+});
+
+export type Manifest = z.infer<typeof manifestSchema>;
+
+export type ManifestTask = z.infer<typeof manifestTaskSchema>;
+
+// Parses manifest text as JSON when it looks like JSON, otherwise as YAML
+export function parseManifest(text: string): Manifest {
+  let raw: unknown;
+  try {
+    raw = text.trim().startsWith("{") ? JSON.parse(text) : parseYaml(text);
+  } catch (error: any) {
+    throw new ValidationError(`Manifest is not valid JSON or YAML: ${error.message}`);
+  }
+  const result = manifestSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ValidationError("Manifest does not match the expected shape", {
+      issues: result.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  const keys = result.data.buckets.flatMap((b) => b.tasks.map((t) => t.key));
+  const duplicates = [...new Set(keys.filter((key, i) => keys.indexOf(key) !== i))];
+  if (duplicates.length > 0) {
+    throw new ValidationError("Manifest task keys must be unique", { duplicates });
+  }
+  return result.data;
+}
+
+// The sync key lives on its own line at the end of the task description
+const KEY_MARKER = /\n*\[sync-key: ([^\]\n]+)\]\s*$/;
+
+export function syncKeyOf(description: string | undefined): string | undefined {
+  return description?.match(KEY_MARKER)?.[1];
+}
+
+export function withSyncKey(description: string, key: string): string {
+  return description ? `${description}\n\n[sync-key: ${key}]` : `[sync-key: ${key}]`;
+}
+
+function withoutSyncKey(description: string | undefined): string {
+  return (description ?? "").replace(KEY_MARKER, "");
+}
+
+// What the plan looks like now: tasks paired with their details resource
+export interface PlanState {
+  planId: string;
+  tasks: { task: any; details: any }[];
+  ctx: PlanContext;
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type SyncAction =
+  | { action: "create"; kind: "bucket"; name: string }
+  | { action: "create"; kind: "task"; key: string; title: string; bucket: string; spec: ManifestTask }
+  | {
+      action: "update";
+      kind: "task";
+      key: string;
+      taskId: string;
+      title: string;
+      changes: Record<string, FieldChange>;
+      taskPatch: Record<string, any>;
+      detailsPatch: Record<string, any>;
+    }
+  | { action: "delete"; kind: "task"; key: string; taskId: string; title: string; etag: string };
+
+export interface SyncPlan {
+  actions: SyncAction[];
+  // Buckets in the plan the manifest doesn't mention (left alone)
+  unmanagedBuckets: string[];
+  warnings: string[];
+}
+
+const PRIORITY_VALUES: Record<(typeof PRIORITY_NAMES)[number], number> = { urgent: 1, important: 3, medium: 5, low: 9 };
+
+function sameInstant(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return Date.parse(a) === Date.parse(b);
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((x) => b.includes(x));
+}
+
+// Compares the manifest to the plan and lists the actions that would reconcile them
+export function computeSyncPlan(manifest: Manifest, state: PlanState): SyncPlan {
+  const { ctx } = state;
+  const actions: SyncAction[] = [];
+  const warnings: string[] = [];
+  const members = [...ctx.members.values()];
+  const bucketByName = new Map([...ctx.buckets].map(([id, name]) => [name.trim().toLowerCase(), id]));
+
+  for (const bucket of manifest.buckets) {
+    if (!bucketByName.has(bucket.name.trim().toLowerCase())) {
+      actions.push({ action: "create", kind: "bucket", name: bucket.name });
+    }
+  }
+  const managedBuckets = new Set(manifest.buckets.map((b) => b.name.trim().toLowerCase()));
+  const unmanagedBuckets = [...ctx.buckets.values()].filter((name) => !managedBuckets.has(name.trim().toLowerCase()));
+
+  const existing = new Map<string, { task: any; details: any }>();
+  for (const entry of state.tasks) {
+    const key = syncKeyOf(entry.details?.description);
+    if (!key) continue;
+    if (existing.has(key)) {
+      warnings.push(`Sync key "${key}" is on more than one task; only the first (${existing.get(key)!.task.id}) is synced`);
+      continue;
+    }
+    existing.set(key, entry);
+  }
+
+  for (const bucket of manifest.buckets) {
+    for (const spec of bucket.tasks) {
+      const entry = existing.get(spec.key);
+      if (!entry) {
+        actions.push({ action: "create", kind: "task", key: spec.key, title: spec.title, bucket: bucket.name, spec });
+        continue;
+      }
+      const { task, details } = entry;
+      const changes: Record<string, FieldChange> = {};
+      const taskPatch: Record<string, any> = {};
+      const detailsPatch: Record<string, any> = {};
+
+      if (task.title !== spec.title) {
+        changes.title = { from: task.title, to: spec.title };
+        taskPatch.title = spec.title;
+      }
+      const bucketId = bucketByName.get(bucket.name.trim().toLowerCase());
+      if (task.bucketId !== bucketId) {
+        changes.bucket = { from: ctx.buckets.get(task.bucketId) ?? task.bucketId, to: bucket.name };
+        // A bucket created by this sync has no ID yet; the apply step fills it in
+        taskPatch.bucketId = bucketId ?? { bucketName: bucket.name };
+      }
+      if (spec.assignees) {
+        const wanted = resolveMembers(members, spec.assignees).map((m) => m.id);
+        const current = Object.keys(task.assignments ?? {});
+        if (!sameSet(wanted, current)) {
+          const name = (id: string) => ctx.members.get(id)?.userPrincipalName ?? id;
+          changes.assignees = { from: current.map(name), to: wanted.map(name) };
+          taskPatch.assignments = {};
+          for (const id of wanted) if (!current.includes(id)) taskPatch.assignments[id] = assignmentEntry();
+          for (const id of current) if (!wanted.includes(id)) taskPatch.assignments[id] = null;
+        }
+      }
+      if (spec.labels) {
+        const wanted = resolveCategories(ctx.categoryLabels, spec.labels);
+        const current = appliedCategoryKeys(task);
+        if (!sameSet(wanted, current)) {
+          const label = (key: string) => ctx.categoryLabels[key] ?? key;
+          changes.labels = { from: current.map(label), to: wanted.map(label) };
+          taskPatch.appliedCategories = {};
+          for (const key of wanted) taskPatch.appliedCategories[key] = true;
+          for (const key of current) if (!wanted.includes(key)) taskPatch.appliedCategories[key] = null;
+        }
+      }
+      if (spec.startDate !== undefined) {
+        const wanted = normalizeDateTime(spec.startDate, false);
+        if (!sameInstant(task.startDateTime, wanted)) {
+          changes.startDate = { from: task.startDateTime ?? null, to: wanted };
+          taskPatch.startDateTime = wanted;
+        }
+      }
+      if (spec.dueDate !== undefined) {
+        const wanted = normalizeDateTime(spec.dueDate, true);
+        if (!sameInstant(task.dueDateTime, wanted)) {
+          changes.dueDate = { from: task.dueDateTime ?? null, to: wanted };
+          taskPatch.dueDateTime = wanted;
+        }
+      }
+      if (spec.priority !== undefined) {
+        const wanted = typeof spec.priority === "number" ? spec.priority : PRIORITY_VALUES[spec.priority];
+        if (task.priority !== wanted) {
+          changes.priority = { from: task.priority, to: wanted };
+          taskPatch.priority = wanted;
+        }
+      }
+      if (spec.percentComplete !== undefined && task.percentComplete !== spec.percentComplete) {
+        changes.percentComplete = { from: task.percentComplete, to: spec.percentComplete };
+        taskPatch.percentComplete = spec.percentComplete;
+      }
+      if (spec.description !== undefined && withoutSyncKey(details.description) !== spec.description) {
+        changes.description = { from: withoutSyncKey(details.description), to: spec.description };
+        detailsPatch.description = withSyncKey(spec.description, spec.key);
+      }
+      if (spec.checklist) {
+        const checklist = diffChecklist(details.checklist ?? {}, spec.checklist);
+        if (checklist) {
+          changes.checklist = checklist.change;
+          detailsPatch.checklist = checklist.patch;
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        actions.push({ action: "update", kind: "task", key: spec.key, taskId: task.id, title: spec.title, changes, taskPatch, detailsPatch });
+      }
+    }
+  }
+
+  if (manifest.prune) {
+    const keys = new Set(manifest.buckets.flatMap((b) => b.tasks.map((t) => t.key)));
+    for (const [key, { task }] of existing) {
+      if (!keys.has(key)) {
+        actions.push({ action: "delete", kind: "task", key, taskId: task.id, title: task.title, etag: task["@odata.etag"] });
+      }
+    }
+  }
+
+  return { actions, unmanagedBuckets, warnings };
+}
+
+// Checklist items are matched by title: missing ones are added, extra ones removed, and the
+// checked state is only enforced for items that spell it out ({ title, checked }). Added items get
+// order hints between their manifest neighbours; if the kept items are out of manifest order, the
+// whole checklist is re-hinted to follow it.
+function diffChecklist(current: Record<string, any>, wanted: ManifestTask["checklist"] & {}) {
+  const items = wanted.map((item) => (typeof item === "string" ? { title: item, checked: undefined } : item));
+  const existing = orderedChecklist(current);
+  const patch: Record<string, any> = {};
+  const added: string[] = [];
+  const removed: string[] = [];
+  const toggled: string[] = [];
+  const matched = new Set<string>();
+
+  // The manifest's items in order, each with the existing item it matched (if any)
+  const sequence = items.map((item) => {
+    const found = existing.find((e) => !matched.has(e.id) && e.title === item.title);
+    if (found) matched.add(found.id);
+    return { item, found };
+  });
+  const kept = sequence.flatMap(({ found }) => (found ? [found] : []));
+  const reordered = kept.some((item, i) => i > 0 && item.orderHint <= kept[i - 1].orderHint);
+  const hints: (string | undefined)[] = reordered
+    ? hintsBetween(undefined, undefined, sequence.length)
+    : sequence.map(() => undefined);
+  if (!reordered) {
+    // Each run of new items goes between the kept items around it
+    for (let start = 0; start < sequence.length; start++) {
+      if (sequence[start].found) continue;
+      let end = start;
+      while (end < sequence.length && !sequence[end].found) end++;
+      const run = hintsBetween(sequence[start - 1]?.found?.orderHint, sequence[end]?.found?.orderHint, end - start);
+      run.forEach((hint, i) => (hints[start + i] = hint));
+      start = end;
+    }
+  }
+
+  sequence.forEach(({ item, found }, i) => {
+    const entry: Record<string, any> = { "@odata.type": "#microsoft.graph.plannerChecklistItem" };
+    if (hints[i] !== undefined) entry.orderHint = hints[i];
+    if (!found) {
+      patch[randomUUID()] = { ...entry, title: item.title, isChecked: item.checked ?? false };
+      added.push(item.title);
+      return;
+    }
+    if (item.checked !== undefined && found.isChecked !== item.checked) {
+      entry.isChecked = item.checked;
+      toggled.push(item.title);
+    }
+    if (Object.keys(entry).length > 1) patch[found.id] = entry;
+  });
+  for (const item of existing) {
+    if (!matched.has(item.id)) {
+      patch[item.id] = null;
+      removed.push(item.title);
+    }
+  }
+  if (Object.keys(patch).length === 0) return undefined;
+  const from: Record<string, unknown> = { removed, toggled };
+  const to: Record<string, unknown> = { added, toggled };
+  if (reordered) {
+    from.order = existing.filter((item) => matched.has(item.id)).map((item) => item.title);
+    to.order = kept.map((item) => item.title);
+  }
+  return { patch, change: { from, to } };
+}
+
+// One line per action, for the dry-run report
+export function describeAction(action: SyncAction): string {
+  switch (action.action) {
+    case "create":
+      return action.kind === "bucket"
+        ? `+ bucket "${action.name}"`
+        : `+ task [${action.key}] "${action.title}" in "${action.bucket}"`;
+    case "update":
+      return `~ task [${action.key}] "${action.title}": ${Object.entries(action.changes)
+        .map(([field, { from, to }]) => `${field} ${JSON.stringify(from)} → ${JSON.stringify(to)}`)
+        .join("; ")}`;
+    case "delete":
+      return `- task [${action.key}] "${action.title}"`;
+  }
+}
+
+// Applies a sync plan in order (buckets, then task creates/updates, then deletes). Each action
+// gets its own result; one failure doesn't stop the rest.
+export async function applySyncPlan(graph: GraphClient, state: PlanState, plan: SyncPlan) {
+  const { ctx } = state;
+  const members = [...ctx.members.values()];
+  const bucketIds = new Map([...ctx.buckets].map(([id, name]) => [name.trim().toLowerCase(), id]));
+  const results: { action: string; success: boolean; error?: unknown }[] = [];
+
+  const run = async (action: SyncAction, work: () => Promise<void>) => {
+    try {
+      await work();
+      results.push({ action: describeAction(action), success: true });
+    } catch (error) {
+      if (!(error instanceof PlannerError)) throw error;
+      results.push({ action: describeAction(action), success: false, error: error.toJSON() });
+    }
+  };
+
+  // Chain order hints so new buckets keep the manifest's order among themselves
+  let orderHint = " !";
+  for (const action of plan.actions) {
+    if (action.action === "create" && action.kind === "bucket") {
+      await run(action, async () => {
+        const bucket = await graph.post("/planner/buckets", { planId: state.planId, name: action.name, orderHint });
+        bucketIds.set(action.name.trim().toLowerCase(), bucket.id);
+        orderHint = `${bucket.orderHint} !`;
+      });
+    }
+  }
+
+  for (const action of plan.actions) {
+    if (action.action === "create" && action.kind === "task") {
+      await run(action, async () => {
+        const { spec } = action;
+        const bucketId = bucketIds.get(action.bucket.trim().toLowerCase());
+        if (!bucketId) throw new ValidationError(`Bucket "${action.bucket}" was not created`);
+        const body = {
+          planId: state.planId,
+          bucketId,
+          ...buildTaskFields({
+            title: spec.title,
+            percentComplete: spec.percentComplete,
+            priority: typeof spec.priority === "string" ? PRIORITY_VALUES[spec.priority] : spec.priority,
+            startDateTime: spec.startDate,
+            dueDateTime: spec.dueDate,
+            assigneeIds: resolveMembers(members, spec.assignees ?? []).map((m) => m.id),
+            categories: resolveCategories(ctx.categoryLabels, spec.labels ?? []),
+          }),
+        };
+        const details: Record<string, any> = { description: withSyncKey(spec.description ?? "", spec.key) };
+        if (spec.checklist?.length) {
+          details.checklist = orderedChecklistEntries(spec.checklist.map((item) =>
+            typeof item === "string" ? { title: item, isChecked: false } : { title: item.title, isChecked: item.checked ?? false }
+          ));
+        }
+        await createTaskWithDetails(graph, body, details);
+      });
+    } else if (action.action === "update") {
+      await run(action, async () => {
+        const taskPatch = { ...action.taskPatch };
+        if (typeof taskPatch.bucketId === "object") {
+          const { bucketName } = taskPatch.bucketId;
+          taskPatch.bucketId = bucketIds.get(bucketName.trim().toLowerCase());
+          if (!taskPatch.bucketId) throw new ValidationError(`Bucket "${bucketName}" was not created`);
+        }
+        if (Object.keys(taskPatch).length > 0) {
+          await patchWithConcurrency(graph, `/planner/tasks/${action.taskId}`, taskPatch);
+        }
+        if (Object.keys(action.detailsPatch).length > 0) {
+          await patchWithConcurrency(graph, `/planner/tasks/${action.taskId}/details`, action.detailsPatch);
+        }
+      });
+    }
+  }
+
+  for (const action of plan.actions) {
+    if (action.action === "delete") {
+      await run(action, () => graph.delete(`/planner/tasks/${action.taskId}`, action.etag));
+    }
+  }
+
+  return results;
+}
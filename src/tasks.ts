@@ -0,0 +1,105 @@
+import { assertCategoryKey } from "./categories.js";
+import { ValidationError } from "./errors.js";
+import { GraphClient } from "./graph.js";
+import { patchWithConcurrency } from "./concurrency.js";
+
+export const PREVIEW_TYPES = ["automatic", "noPreview", "checklist", "description", "reference"] as const;
+
+export type PreviewType = (typeof PREVIEW_TYPES)[number];
+
+// Writable plannerTask fields accepted by create-task and update-task
+export interface TaskFieldInput {
+  title?: string;
+  percentComplete?: number;
+  priority?: number;
+  startDateTime?: string;
+  dueDateTime?: string;
+  orderHint?: string;
+  assigneePriority?: string;
+  previewType?: PreviewType;
+  assigneeIds?: string[];
+  categories?: string[];
+  removeCategories?: string[];
+}
+
+// Normalizes a date parameter: "clear" → null, a bare YYYY-MM-DD gets a UTC time appended
+// (start of day for start dates, end of day for due dates), full ISO timestamps pass through
+export function normalizeDateTime(value: string, endOfDay: boolean): string | null {
+  if (value.toLowerCase() === "clear") return null;
+  if (value.includes("T")) return value;
+  return `${value}T${endOfDay ? "23:59:59" : "00:00:00"}Z`;
+}
+
+export function assignmentEntry(): Record<string, any> {
+  return {
+    "@odata.type": "#microsoft.graph.plannerAssignment",
+    orderHint: " !",
+  };
+}
+
+// Builds a plannerTask body from the provided fields only (undefined fields are left untouched)
+export function buildTaskFields(input: TaskFieldInput): Record<string, any> {
+  const body: Record<string, any> = {};
+  if (input.title !== undefined) body.title = input.title;
+  if (input.percentComplete !== undefined) body.percentComplete = input.percentComplete;
+  if (input.priority !== undefined) body.priority = input.priority;
+  if (input.startDateTime) body.startDateTime = normalizeDateTime(input.startDateTime, false);
+  if (input.dueDateTime) body.dueDateTime = normalizeDateTime(input.dueDateTime, true);
+  if (input.orderHint !== undefined) body.orderHint = input.orderHint;
+  if (input.assigneePriority !== undefined) body.assigneePriority = input.assigneePriority;
+  if (input.previewType !== undefined) body.previewType = input.previewType;
+  if (input.assigneeIds?.length) {
+    body.assignments = {};
+    for (const userId of input.assigneeIds) {
+      body.assignments[userId] = assignmentEntry();
+    }
+  }
+  if (input.categories?.length || input.removeCategories?.length) {
+    body.appliedCategories = {};
+    for (const category of input.categories ?? []) {
+      assertCategoryKey(category);
+      body.appliedCategories[category] = true;
+    }
+    for (const category of input.removeCategories ?? []) {
+      assertCategoryKey(category);
+      body.appliedCategories[category] = null;
+    }
+  }
+  return body;
+}
+
+export function referenceEntry(alias?: string, type?: string): Record<string, any> {
+  const referenceData: Record<string, any> = {
+    "@odata.type": "#microsoft.graph.plannerExternalReference",
+  };
+  if (alias) referenceData.alias = alias;
+  if (type) referenceData.type = type;
+  return referenceData;
+}
+
+// Finds a bucket by ID or (case-insensitive) name in a bucket ID → name map
+export function resolveBucket(buckets: Map<string, string>, ref: string): string {
+  if (buckets.has(ref)) return ref;
+  const needle = ref.trim().toLowerCase();
+  const matches = [...buckets].filter(([, name]) => name.trim().toLowerCase() === needle);
+  if (matches.length === 1) return matches[0][0];
+  if (matches.length > 1) {
+    throw new ValidationError(`Bucket name "${ref}" is ambiguous`, { candidates: matches.map(([id, name]) => ({ id, name })) });
+  }
+  throw new ValidationError(`No bucket named "${ref}" in this plan`, { buckets: [...buckets.values()] });
+}
+
+// Creates a task and then fills in its details resource (description, checklist, references).
+// If the details can't be written the new task is deleted again, so callers never see half a task.
+export async function createTaskWithDetails(graph: GraphClient, body: Record<string, any>, details: Record<string, any>): Promise<any> {
+  const task = await graph.post("/planner/tasks", body);
+  if (Object.keys(details).length > 0) {
+    try {
+      await patchWithConcurrency(graph, `/planner/tasks/${task.id}/details`, details);
+    } catch (error) {
+      await graph.delete(`/planner/tasks/${task.id}`, task["@odata.etag"]).catch(() => undefined);
+      throw error;
+    }
+  }
+  return task;
+}
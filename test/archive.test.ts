@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, importPlan, parseArchive } from "../src/archive.js";
+import { byOrderHint } from "../src/format.js";
+import { FakeGraph, FakeReply, RecordedRequest, startFakeGraph } from "./fake-graph.js";
+
+let fake: FakeGraph | undefined;
+
+afterEach(async () => {
+  await fake?.close();
+  fake = undefined;
+});
+
+// Target plan "plan" with bucket "To Do" already holding one task at board position "P"
+function targetPlan() {
+  const boardHints = new Map<string, string>([["old", "P"]]);
+  const created: any[] = [];
+
+  const subRequest = (request: any): FakeReply & { id: string } => {
+    const taskId = request.url.match(/^\/planner\/tasks\/([^/]+)\/bucketTaskBoardFormat$/)?.[1];
+    if (!taskId) return { id: request.id, status: 404 };
+    if (request.method === "GET") {
+      // New tasks start at the top, as in Planner
+      return { id: request.id, status: 200, body: { orderHint: boardHints.get(taskId) ?? " ", "@odata.etag": "W/\"1\"" } };
+    }
+    boardHints.set(taskId, request.body.orderHint);
+    return { id: request.id, status: 204 };
+  };
+
+  const handler = (request: RecordedRequest): FakeReply => {
+    const path = request.path.replace(/^\/v1\.0/, "");
+    if (request.method === "GET" && path === "/planner/plans/plan") return { status: 200, body: { id: "plan", container: { containerId: "group" } } };
+    if (request.method === "GET" && path === "/planner/plans/plan/buckets") return { status: 200, body: { value: [{ id: "todo", name: "To Do", orderHint: "M" }] } };
+    if (request.method === "GET" && path === "/groups/group/members") return { status: 200, body: { value: [] } };
+    if (request.method === "GET" && path === "/planner/plans/plan/tasks") return { status: 200, body: { value: [{ id: "old", bucketId: "todo" }] } };
+    if (request.method === "POST" && path === "/planner/buckets") return { status: 201, body: { id: "doing", orderHint: "N", ...request.body } };
+    if (request.method === "POST" && path === "/planner/tasks") {
+      const task = { ...request.body, id: `new${created.length + 1}`, "@odata.etag": "W/\"1\"" };
+      created.push(task);
+      return { status: 201, body: task };
+    }
+    if (request.method === "POST" && path === "/$batch") return { status: 200, body: { responses: request.body.requests.map(subRequest) } };
+    return { status: 404, body: { error: { code: "NotFound", message: `${request.method} ${path}` } } };
+  };
+
+  // Task titles of a bucket, top to bottom
+  const board = (bucketId: string) => created
+    .filter((task) => task.bucketId === bucketId)
+    .map((task) => ({ title: task.title, orderHint: boardHints.get(task.id)! }))
+    .sort(byOrderHint)
+    .map((task) => task.title);
+
+  return { handler, boardHints, board };
+}
+
+const archive = parseArchive(JSON.stringify({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: "2024-05-01T00:00:00Z",
+  plan: { id: "source", title: "Source" },
+  buckets: [{ id: "a", name: "To Do" }, { id: "b", name: "Doing" }],
+  tasks: [
+    { id: "1", bucketId: "a", title: "Third", orderHint: "1", boardOrderHint: "c" },
+    { id: "2", bucketId: "a", title: "First", orderHint: "2", boardOrderHint: "a" },
+    { id: "3", bucketId: "b", title: "Only", orderHint: "3", boardOrderHint: "b" },
+    { id: "4", bucketId: "a", title: "Second", orderHint: "4", boardOrderHint: "b" },
+  ],
+}));
+
+describe("importPlan board order", () => {
+  it("recreates each bucket's board order after the tasks already there", async () => {
+    const target = targetPlan();
+    fake = await startFakeGraph(target.handler);
+    const result = await importPlan(fake.client(), archive, "plan", { labels: false, comments: false });
+
+    assert.deepEqual(result.failures, []);
+    assert.deepEqual(result.warnings, []);
+    assert.deepEqual(target.board("todo"), ["First", "Second", "Third"]);
+    assert.deepEqual(target.board("doing"), ["Only"]);
+    for (const task of ["new1", "new2", "new4"]) {
+      assert.ok(target.boardHints.get(task)! > "P", "imported task placed above an existing one");
+    }
+  });
+
+  it("falls back to the list order hint for archives without board hints", async () => {
+    const target = targetPlan();
+    fake = await startFakeGraph(target.handler);
+    const older = { ...archive, tasks: archive.tasks.map(({ boardOrderHint, ...task }) => task) };
+    await importPlan(fake.client(), older, "plan", { labels: false, comments: false });
+
+    assert.deepEqual(target.board("todo"), ["Third", "First", "Second"]);
+  });
+});
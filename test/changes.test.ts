@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { after, describe, it } from "node:test";
+import { readSnapshots, recordSnapshot, takeSnapshot } from "../src/changes.js";
+
+const dir = mkdtempSync(join(tmpdir(), "planner-snapshots-"));
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+// Every file under dir, relative to it
+function files(): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => join(entry.parentPath, entry.name).slice(dir.length + 1));
+}
+
+describe("checkpoints", () => {
+  it("keeps each user's checkpoints apart", () => {
+    const first = takeSnapshot([]);
+    recordSnapshot(dir, "plan", "alice", first);
+    recordSnapshot(dir, "plan", "alice", takeSnapshot([]));
+
+    assert.equal(readSnapshots(dir, "plan", "alice").snapshots.length, 2);
+    assert.deepEqual(readSnapshots(dir, "plan", "bob"), { snapshots: [] });
+
+    recordSnapshot(dir, "plan", "bob", first);
+    assert.equal(readSnapshots(dir, "plan", "alice").snapshots.length, 2);
+    assert.equal(readSnapshots(dir, "plan", "bob").snapshots.length, 1);
+  });
+
+  it("keeps owners and plans apart that differ only in case or punctuation", () => {
+    for (const [planId, owner] of [["p.1", "a.b@contoso.com"], ["p_1", "a_b@contoso.com"], ["P.1", "a.b_contoso.com"], ["p.1", "A.B@contoso.com"]]) {
+      recordSnapshot(dir, planId, owner, takeSnapshot([]));
+    }
+    for (const [planId, owner] of [["p.1", "a.b@contoso.com"], ["p_1", "a_b@contoso.com"], ["P.1", "a.b_contoso.com"], ["p.1", "A.B@contoso.com"]]) {
+      assert.equal(readSnapshots(dir, planId, owner).snapshots.length, 1, `${owner} ${planId}`);
+    }
+  });
+
+  it("doesn't let odd user or plan ids escape the directory", () => {
+    recordSnapshot(dir, "../plan", "../../eve", takeSnapshot([]));
+    assert.equal(readSnapshots(dir, "../plan", "../../eve").snapshots.length, 1);
+    for (const file of files()) assert.match(file, /^[0-9a-f]{64}\/[0-9a-f]{64}\.json$/);
+  });
+
+  it("starts over with a note when the file is damaged", () => {
+    const own = join(dir, "damaged");
+    recordSnapshot(own, "plan", "alice", takeSnapshot([]));
+    const [file] = readdirSync(own, { recursive: true, withFileTypes: true }).filter((entry) => entry.isFile());
+    writeFileSync(join(file.parentPath, file.name), '{"planId":"plan","snapshots":[{"takenAt"');
+
+    const damaged = readSnapshots(own, "plan", "alice");
+    assert.deepEqual(damaged.snapshots, []);
+    assert.match(damaged.note!, /could not be read .* tracking starts over/);
+
+    recordSnapshot(own, "plan", "alice", takeSnapshot([]));
+    assert.deepEqual(readSnapshots(own, "plan", "alice").note, undefined);
+    assert.equal(readSnapshots(own, "plan", "alice").snapshots.length, 1);
+    assert.equal(readdirSync(join(file.parentPath)).length, 1, "no temporary file left behind");
+  });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { EtagConflictError, patchWithConcurrency } from "../src/concurrency.js";
+import { FakeGraph, RecordedRequest, startFakeGraph } from "./fake-graph.js";
+
+let fake: FakeGraph | undefined;
+
+afterEach(async () => {
+  await fake?.close();
+  fake = undefined;
+});
+
+// One Planner resource with ETag checks. interfere runs after each GET, standing in for
+// another client that edits the resource between our read and our PATCH.
+function resource(initial: Record<string, any>, interfere: (state: Record<string, any>, reads: number) => void = () => {}) {
+  let version = 1;
+  let reads = 0;
+  const state: Record<string, any> = structuredClone(initial);
+  const etag = () => `W/"${version}"`;
+  return {
+    state,
+    handler: (request: RecordedRequest) => {
+      if (request.method === "GET") {
+        const body = { ...structuredClone(state), "@odata.etag": etag() };
+        const before = JSON.stringify(state);
+        interfere(state, ++reads);
+        if (JSON.stringify(state) !== before) version++;
+        return { status: 200, body };
+      }
+      if (request.headers["if-match"] !== etag()) {
+        return { status: 412, body: { error: { code: "PreconditionFailed", message: "ETag mismatch" } } };
+      }
+      merge(state, request.body);
+      version++;
+      return { status: 204 };
+    },
+  };
+}
+
+// Applies a PATCH body: nested objects merge, null deletes a key
+function merge(target: Record<string, any>, patch: Record<string, any>): void {
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete target[key];
+    else if (typeof value === "object" && !Array.isArray(value)) merge((target[key] ??= {}), value);
+    else target[key] = value;
+  }
+}
+
+describe("patchWithConcurrency", () => {
+  it("recomputes function changes against the re-read resource", async () => {
+    const task = resource({ assignments: { A: {} } }, (state, reads) => {
+      if (reads === 1) state.assignments.C = {};
+    });
+    fake = await startFakeGraph(task.handler);
+    // replace: ["B"]
+    const outcome = await patchWithConcurrency(fake.client(), "/planner/tasks/1", (current) => {
+      const assignments: Record<string, any> = { B: {} };
+      for (const id of Object.keys(current.assignments)) if (id !== "B") assignments[id] = null;
+      return { assignments };
+    });
+
+    assert.deepEqual(outcome, { retried: true });
+    assert.deepEqual(Object.keys(task.state.assignments), ["B"]);
+  });
+
+  it("stops without writing when the recomputed change is empty", async () => {
+    const details = resource({ checklist: { a: { isChecked: false } } }, (state, reads) => {
+      if (reads === 1) state.checklist.a.isChecked = true;
+    });
+    fake = await startFakeGraph(details.handler);
+    const outcome = await patchWithConcurrency(fake.client(), "/planner/tasks/1/details", (current) =>
+      current.checklist.a.isChecked ? {} : { checklist: { a: { isChecked: true } } }
+    );
+
+    assert.deepEqual(outcome, { retried: true });
+    assert.deepEqual(fake.requests.map((r) => r.method), ["GET", "PATCH", "GET"]);
+  });
+
+  it("retries static changes when the intervening edit touched other fields", async () => {
+    const task = resource({ title: "Old", percentComplete: 0 }, (state, reads) => {
+      if (reads === 1) state.percentComplete = 50;
+    });
+    fake = await startFakeGraph(task.handler);
+    const outcome = await patchWithConcurrency(fake.client(), "/planner/tasks/1", { title: "New" });
+
+    assert.deepEqual(outcome, { retried: true });
+    assert.deepEqual(task.state, { title: "New", percentComplete: 50 });
+  });
+
+  it("reports static changes to fields someone else changed", async () => {
+    const task = resource({ title: "Old", dueDateTime: null }, (state, reads) => {
+      if (reads === 1) state.title = "Theirs";
+    });
+    fake = await startFakeGraph(task.handler);
+    await assert.rejects(
+      patchWithConcurrency(fake.client(), "/planner/tasks/1", { title: "Ours", dueDateTime: "2024-06-01T00:00:00Z" }),
+      (error: unknown) => {
+        assert.ok(error instanceof EtagConflictError);
+        assert.deepEqual(error.conflicts, [{ field: "title", base: "Old", theirs: "Theirs", ours: "Ours" }]);
+        assert.deepEqual(error.applied, ["dueDateTime"]);
+        return true;
+      }
+    );
+    assert.equal(task.state.title, "Theirs");
+    assert.equal(task.state.dueDateTime, "2024-06-01T00:00:00Z");
+  });
+});
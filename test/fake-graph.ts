@@ -0,0 +1,57 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { GraphClient, StaticTokenCredential } from "../src/graph.js";
+import { RetryPolicy } from "../src/retry.js";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+export interface FakeReply {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type FakeHandler = (request: RecordedRequest, index: number) => FakeReply | Promise<FakeReply>;
+
+// Local stand-in for Microsoft Graph: answers every request through handler and records what it got
+export interface FakeGraph {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  client(retry?: Partial<RetryPolicy>): GraphClient;
+  close(): Promise<void>;
+}
+
+// Short delays so retry tests run in milliseconds unless a test asks for Retry-After waits
+export const FAST_RETRY: RetryPolicy = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5, maxTotalWaitMs: 10_000 };
+
+export async function startFakeGraph(handler: FakeHandler): Promise<FakeGraph> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf-8");
+    const request: RecordedRequest = { method: req.method ?? "GET", path: req.url ?? "/", headers: req.headers, body: text ? JSON.parse(text) : undefined };
+    requests.push(request);
+    const reply = await handler(request, requests.length - 1);
+    const body = reply.body === undefined ? "" : JSON.stringify(reply.body);
+    res.writeHead(reply.status, { ...(body ? { "Content-Type": "application/json" } : {}), ...reply.headers });
+    res.end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1.0`;
+
+  return {
+    baseUrl,
+    requests,
+    client: (retry = {}) => new GraphClient({ credential: new StaticTokenCredential("test-token"), baseUrl, retry: { ...FAST_RETRY, ...retry } }),
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
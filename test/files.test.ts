@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { after, describe, it } from "node:test";
+import { localPath } from "../src/files.js";
+import { PlannerSession, runInSession } from "../src/session.js";
+
+const dir = realpathSync(mkdtempSync(join(tmpdir(), "planner-files-")));
+const shared = join(dir, "shared");
+mkdirSync(join(shared, "plans"), { recursive: true });
+writeFileSync(join(dir, "secret.txt"), "secret");
+symlinkSync(join(dir, "secret.txt"), join(shared, "link.txt"));
+
+const session: PlannerSession = { token: "t", userId: "u", userPrincipalName: "u@contoso.com", cache: new Map() };
+const overHttp = <T>(fn: () => T) => runInSession(session, fn);
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("localPath", () => {
+  it("allows any path over stdio when no files directory is set", () => {
+    assert.equal(localPath("/etc/passwd", "csvPath", undefined), "/etc/passwd");
+  });
+
+  it("refuses every path over HTTP when no files directory is set", () => {
+    for (const param of ["csvPath", "manifestPath", "archivePath", "outputPath", "filePath"]) {
+      assert.throws(() => overHttp(() => localPath("plan.json", param, undefined)), (error: any) => {
+        assert.equal(error.type, "forbidden");
+        assert.match(error.detail, new RegExp(`^${param} is not available`));
+        return true;
+      });
+    }
+  });
+
+  it("takes relative paths from the files directory", () => {
+    assert.equal(overHttp(() => localPath("plans/q3.json", "archivePath", shared)), join(shared, "plans", "q3.json"));
+    assert.equal(localPath(join(shared, "out.json"), "outputPath", shared), join(shared, "out.json"));
+  });
+
+  it("refuses paths that lead outside the files directory", () => {
+    for (const path of ["../secret.txt", join(dir, "secret.txt"), "/etc/passwd", "plans/../../secret.txt", "link.txt", "missing/../../x"]) {
+      assert.throws(() => overHttp(() => localPath(path, "filePath", shared)), /must be inside the server's files directory/, path);
+      assert.throws(() => localPath(path, "filePath", shared), /must be inside/, path);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FastMCPSession } from "fastmcp";
+import { beforeSessionConnect, fastmcpVersion } from "../src/hooks.js";
+
+describe("beforeSessionConnect", () => {
+  it("reads the installed FastMCP version", () => {
+    assert.match(fastmcpVersion() ?? "", /^\d+\.\d+\.\d+/);
+  });
+
+  it("leaves FastMCP alone on a release it wasn't checked against", () => {
+    const connect = FastMCPSession.prototype.connect;
+    const warnings: unknown[] = [];
+    const logger = { debug() {}, error() {}, info() {}, log() {}, warn: (message: unknown) => warnings.push(message) };
+    for (const version of ["4.0.0", "2.9.1", "3.25.3-beta.1"]) {
+      assert.equal(beforeSessionConnect(() => assert.fail("setup ran"), logger, version), false);
+    }
+    assert.equal(FastMCPSession.prototype.connect, connect);
+    assert.equal(warnings.length, 3);
+    assert.match(String(warnings[0]), /FastMCP 4\.0\.0 is not a release the session hook was checked against/);
+  });
+});
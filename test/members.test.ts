@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { GroupMember, matchMember, resolveMembers } from "../src/members.js";
+
+const members: GroupMember[] = [
+  { id: "1", displayName: "Alice Jones", userPrincipalName: "alice@contoso.com" },
+  { id: "2", displayName: "Bob Smith", userPrincipalName: "bob@contoso.com", mail: "bob.smith@contoso.com" },
+  { id: "3", displayName: "Mary Ann Lee", userPrincipalName: "mary@contoso.com" },
+];
+
+describe("matchMember", () => {
+  it("resolves IDs, UPNs, mail and whole display names", () => {
+    for (const [ref, id] of [["2", "2"], ["ALICE@contoso.com", "1"], ["bob.smith@contoso.com", "2"], ["bob smith", "2"]]) {
+      const match = matchMember(members, ref);
+      assert.equal(match.status === "resolved" && match.member.id, id, ref);
+    }
+  });
+
+  it("resolves whole words of a display name", () => {
+    for (const [ref, id] of [["Alice", "1"], ["smith", "2"], ["Ann Lee", "3"]]) {
+      const match = matchMember(members, ref);
+      assert.equal(match.status === "resolved" && match.member.id, id, ref);
+    }
+  });
+
+  it("doesn't resolve a one-letter or partial prefix", () => {
+    for (const ref of ["a", "Al", "Ali", "Bob Sm", "ann le"]) {
+      assert.deepEqual(matchMember(members, ref), { status: "unresolved" }, ref);
+    }
+    assert.throws(() => resolveMembers(members, ["a"]), /Could not resolve every user/);
+  });
+
+  it("reports a word shared by several members as ambiguous", () => {
+    const match = matchMember([...members, { id: "4", displayName: "Alice Brown" }], "alice");
+    assert.equal(match.status, "ambiguous");
+  });
+});
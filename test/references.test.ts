@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeReferenceKey, encodeUrlForReference, parseGitHubUrl, referenceKeyFor } from "../src/references.js";
+
+const TRICKY_URLS = [
+  "https://contoso.sharepoint.com/sites/Team/Shared Documents/Q3 plan.docx",
+  "https://example.com/search?q=a&b=c=d",
+  "https://example.com/page#section-2",
+  "https://example.com/already%20escaped/100%",
+  "https://example.com/%zz/%2525",
+  "https://例え.jp/päth/ü?q=ä#ö",
+  "https://github.com/contoso/widgets.git/pull/12",
+  "https://github.com/contoso/widgets/commit/0123456789abcdef0123456789abcdef01234567",
+  "http://localhost:8080/a.b.c",
+];
+
+describe("reference keys", () => {
+  for (const url of TRICKY_URLS) {
+    it(`round-trips ${url}`, () => {
+      const key = encodeUrlForReference(url);
+      assert.equal(decodeReferenceKey(key), url);
+      assert.equal(referenceKeyFor({ [key]: {} }, url), key);
+    });
+  }
+
+  it("escapes the characters Graph rejects in property names", () => {
+    const key = encodeUrlForReference("https://a.b/c?d=e&f#g h");
+    assert.doesNotMatch(key, /[:.?=&# ]/);
+    assert.equal(key, "https%3A//a%2Eb/c%3Fd%3De%26f%23g%20h");
+  });
+
+  it("falls back to undoing only its own escapes when a key has malformed escapes", () => {
+    assert.equal(decodeReferenceKey("https%3A//example%2Ecom/100%"), "https://example.com/100%");
+    assert.equal(decodeReferenceKey("https%3A//example%2Ecom/%zz%3Fa%3Db"), "https://example.com/%zz?a=b");
+  });
+
+  it("finds keys written before percent signs were escaped", () => {
+    const url = "https://example.com/a%20b";
+    const legacy = "https%3A//example%2Ecom/a%20b";
+    assert.equal(referenceKeyFor({ [legacy]: {} }, url), legacy);
+  });
+
+  it("finds legacy keys with malformed escapes", () => {
+    const url = "https://example.com/100%";
+    const legacy = "https%3A//example%2Ecom/100%";
+    assert.equal(referenceKeyFor({ [legacy]: {} }, url), legacy);
+  });
+
+  it("finds keys encoded differently by Planner", () => {
+    const key = "https%3A%2F%2Fexample%2Ecom%2Fdoc";
+    assert.equal(referenceKeyFor({ [key]: {} }, "https://example.com/doc"), key);
+  });
+
+  it("prefers the current encoding when both forms are present", () => {
+    const url = "https://example.com/a%20b";
+    const references = { "https%3A//example%2Ecom/a%20b": {}, [encodeUrlForReference(url)]: {} };
+    assert.equal(referenceKeyFor(references, url), encodeUrlForReference(url));
+  });
+
+  it("returns undefined for a URL that isn't there", () => {
+    assert.equal(referenceKeyFor({ [encodeUrlForReference("https://a.com")]: {} }, "https://b.com"), undefined);
+    assert.equal(referenceKeyFor(undefined, "https://b.com"), undefined);
+  });
+});
+
+describe("parseGitHubUrl", () => {
+  it("recognises pull requests, including links into them", () => {
+    for (const url of [
+      "https://github.com/contoso/widgets/pull/42",
+      "https://github.com/contoso/widgets/pull/42/files",
+      "https://github.com/contoso/widgets/pull/42#issuecomment-1",
+      "https://www.github.com/contoso/widgets/pull/42?w=1",
+    ]) {
+      assert.deepEqual(parseGitHubUrl(url), { kind: "pullRequest", owner: "contoso", repo: "widgets", number: 42, alias: "contoso/widgets#42" });
+    }
+  });
+
+  it("recognises issues", () => {
+    assert.equal(parseGitHubUrl("https://github.com/contoso/widgets/issues/7")?.alias, "contoso/widgets#7");
+    assert.equal(parseGitHubUrl("https://github.com/contoso/widgets/issues/7")?.kind, "issue");
+  });
+
+  it("drops .git from the alias", () => {
+    assert.equal(parseGitHubUrl("https://github.com/contoso/widgets.git/pull/12")?.alias, "contoso/widgets#12");
+    assert.equal(parseGitHubUrl("https://github.com/contoso/my.repo/issues/3")?.alias, "contoso/my.repo#3");
+  });
+
+  it("recognises full and short commit SHAs", () => {
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+    assert.deepEqual(parseGitHubUrl(`https://github.com/contoso/widgets/commit/${sha}`), {
+      kind: "commit", owner: "contoso", repo: "widgets", sha, alias: "contoso/widgets@0123456",
+    });
+    assert.equal(parseGitHubUrl("https://github.com/contoso/widgets/commit/ABCDEF1")?.alias, "contoso/widgets@ABCDEF1");
+  });
+
+  it("rejects everything else", () => {
+    for (const url of [
+      "https://github.com/contoso/widgets",
+      "https://github.com/contoso/widgets/pull/abc",
+      "https://github.com/contoso/widgets/commit/abc",
+      "https://github.com/contoso/widgets/commit/xyz1234567",
+      "https://gitlab.com/contoso/widgets/pull/1",
+      "https://github.com.evil.com/contoso/widgets/pull/1",
+      "not a url",
+    ]) {
+      assert.equal(parseGitHubUrl(url), undefined, url);
+    }
+  });
+});
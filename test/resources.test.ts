@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "http";
+import { after, before, describe, it } from "node:test";
+import { GraphClient, StaticTokenCredential } from "../src/graph.js";
+import { PLAN_MEMORY_SIZE, ResourceSubscriptions, planUri, taskUri } from "../src/resources.js";
+import { PlannerSession, SessionCredential, authenticateSession, runInSession, trackRequestTokens } from "../src/session.js";
+import { FAST_RETRY, FakeGraph, startFakeGraph } from "./fake-graph.js";
+
+let fake: FakeGraph;
+let graph: GraphClient;
+
+before(async () => {
+  fake = await startFakeGraph((request) => {
+    const token = String(request.headers.authorization).replace("Bearer ", "");
+    return { status: 200, body: { id: token, userPrincipalName: `${token}@contoso.com` } };
+  });
+  graph = new GraphClient({ credential: new SessionCredential(new StaticTokenCredential("no-session")), baseUrl: fake.baseUrl, retry: FAST_RETRY });
+});
+
+after(() => fake.close());
+
+// A FastMCP session stand-in: records the subscribe handlers and the notifications it is sent
+function fakeSession() {
+  const handlers: ((request: any) => Promise<unknown>)[] = [];
+  const updated: string[] = [];
+  const transport = { onmessage: (_message: unknown, _extra?: unknown) => {} };
+  const session = {
+    server: {
+      transport,
+      setRequestHandler: (_schema: unknown, handler: (request: any) => Promise<unknown>) => handlers.push(handler),
+      sendResourceUpdated: async ({ uri }: { uri: string }) => updated.push(uri),
+    },
+  } as any;
+  const subscribe = (uri: string) => handlers[0]({ params: { uri } });
+  const unsubscribe = (uri: string) => handlers[1]({ params: { uri } });
+  return { session, transport, updated, subscribe, unsubscribe };
+}
+
+// A session of the user behind token, as the HTTP transport sets it up
+async function httpSession(subscriptions: ResourceSubscriptions, token: string) {
+  const request = { headers: { authorization: `Bearer ${token}` } } as unknown as IncomingMessage;
+  const planner = (await authenticateSession(graph, request))!;
+  const fakeMcp = fakeSession();
+  subscriptions.attach(fakeMcp.session);
+  trackRequestTokens(fakeMcp.session);
+  fakeMcp.transport.onmessage({ jsonrpc: "2.0", id: 0, method: "initialize" }, { requestInfo: { headers: request.headers } });
+  return { ...fakeMcp, planner };
+}
+
+describe("ResourceSubscriptions", () => {
+  it("notifies only the writing user's sessions", async () => {
+    const subscriptions = new ResourceSubscriptions();
+    const alice = await httpSession(subscriptions, "alice");
+    const aliceAgain = await httpSession(subscriptions, "alice");
+    const bob = await httpSession(subscriptions, "bob");
+    for (const { subscribe } of [alice, aliceAgain, bob]) await subscribe(taskUri("t1"));
+
+    runInSession(alice.planner, () => subscriptions.graphChanged("PATCH", "/planner/tasks/t1"));
+
+    assert.deepEqual(alice.updated, [taskUri("t1")]);
+    assert.deepEqual(aliceAgain.updated, [taskUri("t1")]);
+    assert.deepEqual(bob.updated, []);
+  });
+
+  it("notifies over stdio, where there are no users", async () => {
+    const subscriptions = new ResourceSubscriptions();
+    const stdio = fakeSession();
+    subscriptions.attach(stdio.session);
+    await stdio.subscribe(planUri("p1"));
+
+    subscriptions.graphRead("/planner/tasks/t1", { id: "t1", planId: "p1" });
+    subscriptions.graphChanged("PATCH", "/planner/tasks/t1");
+
+    assert.deepEqual(stdio.updated, [planUri("p1")]);
+  });
+
+  it("looks up the plan of a task it hasn't read", async () => {
+    const subscriptions = new ResourceSubscriptions(async () => "p1");
+    const stdio = fakeSession();
+    subscriptions.attach(stdio.session);
+    await stdio.subscribe(planUri("p1"));
+
+    subscriptions.graphChanged("PATCH", "/planner/tasks/t1/details");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.deepEqual(stdio.updated, [planUri("p1")]);
+  });
+
+  it("bounds and drops what it remembers about plans", async () => {
+    const lookups: string[] = [];
+    const subscriptions = new ResourceSubscriptions(async (_collection, id) => {
+      lookups.push(id);
+      return undefined;
+    });
+    const stdio = fakeSession();
+    subscriptions.attach(stdio.session);
+    await stdio.subscribe(planUri("p1"));
+    const known = (id: string) => {
+      lookups.length = 0;
+      subscriptions.graphChanged("PATCH", `/planner/tasks/${id}`);
+      return lookups.length === 0;
+    };
+
+    subscriptions.graphRead("/planner/plans/p1/tasks", { value: Array.from({ length: PLAN_MEMORY_SIZE + 1 }, (_, i) => ({ id: `t${i}`, planId: "p1" })) });
+    assert.equal(known("t0"), false, "the oldest entry is dropped past the limit");
+    assert.equal(known(`t${PLAN_MEMORY_SIZE}`), true);
+
+    subscriptions.graphChanged("DELETE", "/planner/tasks/t1");
+    assert.equal(known("t1"), false, "a deleted task is forgotten");
+
+    assert.equal(known("t2"), true);
+    await stdio.unsubscribe(planUri("p1"));
+    await stdio.subscribe(planUri("p1"));
+    assert.equal(known("t2"), false, "everything is forgotten once nobody subscribes");
+  });
+});
@@ -0,0 +1,220 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { PlannerError } from "../src/errors.js";
+import { DEFAULT_RETRY_POLICY, computeRetryDelay, parseRetryAfter, retryPolicyFromEnv } from "../src/retry.js";
+import { FakeGraph, startFakeGraph } from "./fake-graph.js";
+
+let fake: FakeGraph | undefined;
+
+afterEach(async () => {
+  await fake?.close();
+  fake = undefined;
+});
+
+// Answers with the given statuses in turn, then 200 with { ok: true }
+function replies(...statuses: (number | { status: number; headers?: Record<string, string> })[]) {
+  return (_request: unknown, index: number) => {
+    const reply = statuses[index];
+    if (reply === undefined) return { status: 200, body: { ok: true } };
+    return typeof reply === "number" ? { status: reply, body: { error: { code: "x", message: `HTTP ${reply}` } } } : reply;
+  };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<PlannerError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof PlannerError);
+    return error;
+  }
+  assert.fail("expected the request to fail");
+}
+
+describe("Retry-After", () => {
+  it("parses delta-seconds", () => {
+    assert.equal(parseRetryAfter("3"), 3000);
+    assert.equal(parseRetryAfter("0"), 0);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    const now = Date.parse("2024-05-01T10:00:00Z");
+    assert.equal(parseRetryAfter("Wed, 01 May 2024 10:00:05 GMT", now), 5000);
+    assert.equal(parseRetryAfter("Wed, 01 May 2024 09:59:00 GMT", now), 0);
+  });
+
+  it("ignores missing and unparseable values", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+
+  it("waits the delta-seconds of a 429 before retrying", async () => {
+    fake = await startFakeGraph(replies({ status: 429, headers: { "Retry-After": "1" } }));
+    const started = Date.now();
+    assert.deepEqual(await fake.client().get("/planner/tasks/1"), { ok: true });
+    assert.equal(fake.requests.length, 2);
+    assert.ok(Date.now() - started >= 950, "retried before Retry-After elapsed");
+  });
+
+  it("waits until the HTTP date of a 429 before retrying", async () => {
+    const retryAt = new Date(Date.now() + 2000).toUTCString();
+    fake = await startFakeGraph(replies({ status: 429, headers: { "Retry-After": retryAt } }));
+    await fake.client().get("/planner/tasks/1");
+    assert.equal(fake.requests.length, 2);
+    assert.ok(Date.now() >= Date.parse(retryAt) - 50, "retried before the Retry-After date");
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("jitters between zero and the doubled base delay", () => {
+    assert.equal(computeRetryDelay(policy, 0, undefined, () => 0), 0);
+    assert.equal(computeRetryDelay(policy, 0, undefined, () => 0.5), 50);
+    assert.equal(computeRetryDelay(policy, 2, undefined, () => 0.5), 200);
+    assert.equal(computeRetryDelay(policy, 2, undefined, () => 0.999), 400);
+  });
+
+  it("caps the backoff at maxDelayMs", () => {
+    assert.equal(computeRetryDelay(policy, 10, undefined, () => 0.999), 999);
+  });
+
+  it("prefers the server's Retry-After", () => {
+    assert.equal(computeRetryDelay(policy, 3, 7000, () => 0.5), 7000);
+  });
+
+  it("stays within bounds with the default random source", () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = computeRetryDelay(policy, 1);
+      assert.ok(delay >= 0 && delay <= 200);
+    }
+  });
+});
+
+describe("fetchWithRetry", () => {
+  for (const status of [500, 502, 504]) {
+    it(`does not retry ${status} on POST`, async () => {
+      fake = await startFakeGraph(replies(status));
+      const error = await rejection(fake.client().post("/planner/tasks", { title: "x" }));
+      assert.equal(error.status, status);
+      assert.equal(fake.requests.length, 1);
+    });
+
+    it(`retries ${status} on GET`, async () => {
+      fake = await startFakeGraph(replies(status));
+      assert.deepEqual(await fake.client().get("/planner/tasks/1"), { ok: true });
+      assert.equal(fake.requests.length, 2);
+    });
+  }
+
+  it("retries 429 and 503 on POST", async () => {
+    fake = await startFakeGraph(replies(429, 503));
+    assert.deepEqual(await fake.client().post("/planner/tasks", { title: "x" }), { ok: true });
+    assert.equal(fake.requests.length, 3);
+  });
+
+  it("gives up after maxRetries and returns the last response", async () => {
+    fake = await startFakeGraph(replies(503, 503, 503, 503));
+    const error = await rejection(fake.client({ maxRetries: 2 }).get("/planner/tasks/1"));
+    assert.equal(error.type, "throttled");
+    assert.equal(fake.requests.length, 3);
+  });
+
+  it("returns the last response when Retry-After exceeds maxTotalWaitMs", async () => {
+    fake = await startFakeGraph(replies({ status: 429, headers: { "Retry-After": "60" } }));
+    const started = Date.now();
+    const error = await rejection(fake.client({ maxTotalWaitMs: 1000 }).get("/planner/tasks/1"));
+    assert.equal(error.type, "throttled");
+    assert.equal(error.info.retryAfterSeconds, 60);
+    assert.equal(fake.requests.length, 1);
+    assert.ok(Date.now() - started < 1000, "waited despite the budget");
+  });
+
+  it("stops once the waits so far use up maxTotalWaitMs", async () => {
+    const throttled = { status: 429, headers: { "Retry-After": "0.3" } };
+    fake = await startFakeGraph(replies(throttled, throttled, throttled));
+    const error = await rejection(fake.client({ maxTotalWaitMs: 700 }).get("/planner/tasks/1"));
+    assert.equal(error.type, "throttled");
+    assert.equal(fake.requests.length, 3);
+  });
+});
+
+describe("retryPolicyFromEnv", () => {
+  it("uses the defaults when nothing is set", () => {
+    assert.deepEqual(retryPolicyFromEnv({}), DEFAULT_RETRY_POLICY);
+  });
+
+  it("reads the GRAPH_* overrides", () => {
+    assert.deepEqual(
+      retryPolicyFromEnv({
+        GRAPH_MAX_RETRIES: "2",
+        GRAPH_RETRY_BASE_DELAY_MS: "250",
+        GRAPH_RETRY_MAX_DELAY_MS: "4000",
+        GRAPH_RETRY_MAX_TOTAL_WAIT_MS: "10000",
+      }),
+      { maxRetries: 2, baseDelayMs: 250, maxDelayMs: 4000, maxTotalWaitMs: 10000 }
+    );
+  });
+
+  it("allows disabling retries with 0", () => {
+    assert.equal(retryPolicyFromEnv({ GRAPH_MAX_RETRIES: "0" }).maxRetries, 0);
+  });
+
+  it("keeps the default for empty, negative or non-numeric values", () => {
+    const policy = retryPolicyFromEnv({ GRAPH_MAX_RETRIES: "", GRAPH_RETRY_BASE_DELAY_MS: "-5", GRAPH_RETRY_MAX_DELAY_MS: "lots" });
+    assert.equal(policy.maxRetries, DEFAULT_RETRY_POLICY.maxRetries);
+    assert.equal(policy.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs);
+    assert.equal(policy.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("batch", () => {
+  it("re-sends only the throttled items", async () => {
+    fake = await startFakeGraph((request, index) => ({
+      status: 200,
+      body: {
+        responses: request.body.requests.map((r: any) =>
+          index === 0 && r.id === "2"
+            ? { id: r.id, status: 429, headers: { "Retry-After": "0" }, body: { error: { code: "TooManyRequests" } } }
+            : { id: r.id, status: 200, body: { id: r.id } }
+        ),
+      },
+    }));
+    const results = await fake.client().batch([
+      { id: "1", method: "GET", url: "/planner/tasks/a" },
+      { id: "2", method: "PATCH", url: "/planner/tasks/b", body: { title: "b" }, headers: { "If-Match": "W/\"1\"" } },
+    ]);
+
+    assert.equal(fake.requests.length, 2);
+    assert.deepEqual(fake.requests[1].body.requests.map((r: any) => r.id), ["2"]);
+    assert.equal(fake.requests[1].body.requests[0].headers["If-Match"], "W/\"1\"");
+    assert.equal(results.get("1")?.status, 200);
+    assert.equal(results.get("2")?.status, 200);
+  });
+
+  it("does not re-send gateway errors on POST items", async () => {
+    fake = await startFakeGraph((request) => ({
+      status: 200,
+      body: { responses: request.body.requests.map((r: any) => ({ id: r.id, status: 502 })) },
+    }));
+    const results = await fake.client().batch([
+      { id: "1", method: "POST", url: "/planner/tasks", body: { title: "a" } },
+      { id: "2", method: "GET", url: "/planner/tasks/b" },
+    ]);
+
+    assert.equal(fake.requests.length, 4);
+    assert.deepEqual(fake.requests.slice(1).map((r) => r.body.requests.map((item: any) => item.id)), [["2"], ["2"], ["2"]]);
+    assert.equal(results.get("1")?.status, 502);
+    assert.equal(results.get("2")?.status, 502);
+  });
+
+  it("splits more than 20 requests into several $batch calls", async () => {
+    fake = await startFakeGraph((request) => ({
+      status: 200,
+      body: { responses: request.body.requests.map((r: any) => ({ id: r.id, status: 204 })) },
+    }));
+    const requests = Array.from({ length: 45 }, (_, i) => ({ id: String(i), method: "DELETE", url: `/planner/tasks/${i}` }));
+    const results = await fake.client().batch(requests);
+    assert.deepEqual(fake.requests.map((r) => r.body.requests.length), [20, 20, 5]);
+    assert.equal(results.size, 45);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "http";
+import { after, before, describe, it } from "node:test";
+import { GraphClient, StaticTokenCredential } from "../src/graph.js";
+import { ForbiddenError } from "../src/errors.js";
+import {
+  PlannerSession,
+  SessionCredential,
+  authenticateSession,
+  cached,
+  clearCache,
+  invalidate,
+  refreshSessionToken,
+  runInSession,
+  trackRequestTokens,
+} from "../src/session.js";
+import { FAST_RETRY, FakeGraph, startFakeGraph } from "./fake-graph.js";
+
+let fake: FakeGraph;
+let graph: GraphClient;
+
+before(async () => {
+  fake = await startFakeGraph((request) => {
+    // "user-alice" and a renewed "user-alice#2" both belong to user-alice
+    const token = String(request.headers.authorization).replace("Bearer ", "");
+    const id = token.split("#")[0];
+    return token.startsWith("user-")
+      ? { status: 200, body: { id, userPrincipalName: `${id}@contoso.com` } }
+      : { status: 401, body: { error: { code: "InvalidAuthenticationToken", message: "Access token is empty." } } };
+  });
+  graph = new GraphClient({ credential: new SessionCredential(new StaticTokenCredential("no-session")), baseUrl: fake.baseUrl, retry: FAST_RETRY });
+});
+
+after(() => fake.close());
+
+function request(token?: string): IncomingMessage {
+  return { headers: token ? { authorization: `Bearer ${token}` } : {} } as IncomingMessage;
+}
+
+async function session(token: string): Promise<PlannerSession> {
+  return (await authenticateSession(graph, request(token)))!;
+}
+
+describe("authenticateSession", () => {
+  it("skips stdio, where there is no request", async () => {
+    assert.equal(await authenticateSession(graph, undefined), undefined);
+  });
+
+  it("identifies the user behind the token", async () => {
+    const alice = await session("user-alice");
+    assert.equal(alice.userId, "user-alice");
+    assert.equal(alice.userPrincipalName, "user-alice@contoso.com");
+  });
+
+  it("answers Unauthorized for a missing or rejected token", async () => {
+    await assert.rejects(authenticateSession(graph, request()), /^Error: Unauthorized/);
+    await assert.rejects(authenticateSession(graph, request("expired")), /^Error: Unauthorized.*Access token is empty/);
+  });
+});
+
+describe("session caches", () => {
+  it("keeps entries per session", async () => {
+    const [alice, bob] = await Promise.all([session("user-alice"), session("user-bob")]);
+    await runInSession(alice, () => cached("planGroup:p1", async () => "alice's"));
+    assert.equal(await runInSession(bob, () => cached("planGroup:p1", async () => "bob's")), "bob's");
+  });
+
+  it("invalidates every session's cache", async () => {
+    const [alice, bob] = await Promise.all([session("user-alice"), session("user-bob")]);
+    await runInSession(alice, () => cached("buckets:p1", async () => ["old"]));
+    await runInSession(bob, () => cached("buckets:p1", async () => ["old"]));
+    await cached("buckets:p1", async () => ["old"]);
+
+    runInSession(alice, () => invalidate("buckets:"));
+
+    for (const current of [alice, bob, undefined]) {
+      assert.deepEqual(await runInSession(current, () => cached("buckets:p1", async () => ["new"])), ["new"]);
+    }
+  });
+
+  it("clears only the calling session's cache", async () => {
+    const [alice, bob] = await Promise.all([session("user-alice"), session("user-bob")]);
+    await runInSession(alice, () => cached("groupMembers:g1", async () => "alice's"));
+    await runInSession(bob, () => cached("groupMembers:g1", async () => "bob's"));
+
+    assert.equal(runInSession(alice, () => clearCache()), 1);
+    assert.equal(await runInSession(bob, () => cached("groupMembers:g1", async () => "reloaded")), "bob's");
+  });
+});
+
+// A connected FastMCP session whose transport hands each message to refreshSessionToken, the way
+// a tool call does, and keeps the result
+function connected(planner: PlannerSession) {
+  let refreshed: Promise<void> = Promise.resolve();
+  const transport = { onmessage: (_message: unknown, _extra?: unknown) => { refreshed = refreshSessionToken(graph, planner); } };
+  const session = { server: { transport } } as any;
+  assert.equal(trackRequestTokens(session), true);
+  return (token?: string) => {
+    const headers = token ? { authorization: `Bearer ${token}` } : {};
+    transport.onmessage({ jsonrpc: "2.0", id: 1, method: "tools/call" }, { requestInfo: { headers } });
+    return refreshed;
+  };
+}
+
+describe("request tokens", () => {
+  it("moves the session onto a renewed token for the same user", async () => {
+    const alice = await session("user-alice");
+    const send = connected(alice);
+    await send("user-alice#2");
+    assert.equal(alice.token, "user-alice#2");
+  });
+
+  it("keeps the session's token when a request sends none", async () => {
+    const alice = await session("user-alice");
+    await connected(alice)();
+    assert.equal(alice.token, "user-alice");
+  });
+
+  it("refuses a token that belongs to someone else", async () => {
+    const alice = await session("user-alice");
+    await assert.rejects(connected(alice)("user-bob"), (error: unknown) => {
+      assert.ok(error instanceof ForbiddenError);
+      assert.match(error.detail, /belongs to user-bob@contoso\.com, not to this session's user user-alice@contoso\.com/);
+      return true;
+    });
+    assert.equal(alice.token, "user-alice");
+  });
+
+  it("doesn't call Graph outside a tracked request", async () => {
+    const alice = await session("user-alice");
+    const before = fake.requests.length;
+    await refreshSessionToken(graph, alice);
+    assert.equal(fake.requests.length, before);
+  });
+
+  it("warns when the session has no transport to watch", () => {
+    const warnings: unknown[][] = [];
+    const logger = { debug() {}, error() {}, info() {}, log() {}, warn: (...args: unknown[]) => warnings.push(args) };
+    assert.equal(trackRequestTokens({ server: { transport: undefined } } as any, logger), false);
+    assert.equal(warnings.length, 1);
+    assert.match(String(warnings[0][0]), /renewed bearer tokens/);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { orderedChecklist } from "../src/checklist.js";
+import { PlanState, SyncAction, computeSyncPlan, parseManifest, withSyncKey } from "../src/sync.js";
+
+// A plan with one synced task in bucket "To Do" whose checklist holds the given items in order
+function planWithChecklist(items: { id: string; title: string; orderHint: string; isChecked?: boolean }[]): PlanState {
+  const checklist: Record<string, any> = {};
+  for (const { id, ...item } of items) checklist[id] = { isChecked: false, ...item };
+  return {
+    planId: "plan",
+    tasks: [{
+      task: { id: "task", title: "Release", bucketId: "todo", assignments: {}, appliedCategories: {} },
+      details: { description: withSyncKey("", "release"), checklist },
+    }],
+    ctx: { buckets: new Map([["todo", "To Do"]]), categoryLabels: {}, members: new Map() },
+  };
+}
+
+function manifestWithChecklist(checklist: unknown[]) {
+  return parseManifest(JSON.stringify({
+    buckets: [{ name: "To Do", tasks: [{ key: "release", title: "Release", checklist }] }],
+  }));
+}
+
+function update(actions: SyncAction[]) {
+  const action = actions.find((a) => a.action === "update");
+  assert.ok(action && action.action === "update", "expected an update action");
+  return action;
+}
+
+// The checklist after applying a details PATCH to the current one
+function applied(current: Record<string, any>, patch: Record<string, any>) {
+  const result: Record<string, any> = structuredClone(current);
+  for (const [id, change] of Object.entries(patch)) {
+    if (change === null) delete result[id];
+    else result[id] = { ...result[id], ...change };
+  }
+  return orderedChecklist(result).map((item) => item.title);
+}
+
+describe("computeSyncPlan checklist", () => {
+  const existing = [
+    { id: "a", title: "Design", orderHint: "A" },
+    { id: "c", title: "Ship", orderHint: "C" },
+  ];
+
+  it("leaves a checklist that already matches alone", () => {
+    const plan = computeSyncPlan(manifestWithChecklist(["Design", "Ship"]), planWithChecklist(existing));
+    assert.equal(plan.actions.length, 0);
+  });
+
+  it("puts added items between their manifest neighbours", () => {
+    const state = planWithChecklist(existing);
+    const action = update(computeSyncPlan(manifestWithChecklist(["Kickoff", "Design", "Build", "Test", "Ship", "Retro"]), state).actions);
+    const patch = action.detailsPatch.checklist;
+
+    assert.deepEqual(applied(state.tasks[0].details.checklist, patch), ["Kickoff", "Design", "Build", "Test", "Ship", "Retro"]);
+    // Kept items that are already in order aren't rewritten
+    assert.equal(patch.a, undefined);
+    assert.equal(patch.c, undefined);
+    assert.deepEqual(action.changes.checklist.to, { added: ["Kickoff", "Build", "Test", "Retro"], toggled: [] });
+  });
+
+  it("re-orders kept items to follow the manifest", () => {
+    const state = planWithChecklist(existing);
+    const action = update(computeSyncPlan(manifestWithChecklist(["Ship", "Review", "Design"]), state).actions);
+
+    assert.deepEqual(applied(state.tasks[0].details.checklist, action.detailsPatch.checklist), ["Ship", "Review", "Design"]);
+    assert.deepEqual(action.changes.checklist, {
+      from: { removed: [], toggled: [], order: ["Design", "Ship"] },
+      to: { added: ["Review"], toggled: [], order: ["Ship", "Design"] },
+    });
+  });
+
+  it("removes unlisted items and toggles explicit checked states", () => {
+    const state = planWithChecklist([...existing, { id: "b", title: "Old", orderHint: "B" }]);
+    const action = update(computeSyncPlan(manifestWithChecklist(["Design", { title: "Ship", checked: true }]), state).actions);
+    const patch = action.detailsPatch.checklist;
+
+    assert.equal(patch.b, null);
+    assert.deepEqual(patch.c, { "@odata.type": "#microsoft.graph.plannerChecklistItem", isChecked: true });
+    assert.deepEqual(applied(state.tasks[0].details.checklist, patch), ["Design", "Ship"]);
+  });
+});